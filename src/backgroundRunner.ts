@@ -0,0 +1,114 @@
+import * as vscode from 'vscode';
+import { ChildProcess, spawn } from 'child_process';
+import { DEFAULT_TERMINAL_NAME } from './terminalManager';
+import { ExecutionSettings } from './types';
+
+/**
+ * A command started in the background
+ */
+export interface BackgroundRun {
+    cwd?: string;
+
+    /**
+     * Resolves when the process ends, with undefined if it was cancelled,
+     * couldn't start or was stopped by a signal
+     */
+    exitCode: Promise<number | undefined>;
+}
+
+/**
+ * Runs commands as child processes instead of in a terminal. Output goes to an output channel,
+ * a progress notification can cancel the run, and another notification reports the exit code.
+ */
+export class BackgroundRunner implements vscode.Disposable {
+    private readonly output = vscode.window.createOutputChannel(DEFAULT_TERMINAL_NAME);
+    private readonly processes = new Set<ChildProcess>();
+
+    /**
+     * Start a command in the background.
+     * commandText is what gets shown, runText what gets run, with secrets filled in.
+     */
+    run(label: string, commandText: string, runText: string, settings: ExecutionSettings): BackgroundRun {
+        const cwd = settings.cwd || vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+
+        this.output.appendLine(`[${new Date().toLocaleTimeString()}] ${label}`);
+        this.output.appendLine(`$ ${commandText}`);
+
+        const child = spawn(runText, {
+            cwd,
+            env: { ...process.env, ...settings.env },
+            shell: settings.shellPath || true,
+            // Nothing can type into a background command, so commands reading input get end of file instead of waiting
+            stdio: ['ignore', 'pipe', 'pipe'],
+            // In its own process group, so cancelling also stops what the command started
+            detached: process.platform !== 'win32'
+        });
+        this.processes.add(child);
+        child.stdout?.on('data', (data: Buffer) => this.output.append(data.toString()));
+        child.stderr?.on('data', (data: Buffer) => this.output.append(data.toString()));
+
+        let cancelled = false;
+        const exitCode = new Promise<number | undefined>(resolve => {
+            child.on('error', error => {
+                this.output.appendLine(`Failed to start: ${error.message}`);
+                resolve(undefined);
+            });
+            child.on('close', code => resolve(cancelled ? undefined : code ?? undefined));
+        }).finally(() => this.processes.delete(child));
+
+        vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: `Running "${label}"`,
+            cancellable: true
+        }, (_progress, token) => {
+            token.onCancellationRequested(() => {
+                cancelled = true;
+                this.stop(child);
+            });
+            return exitCode;
+        });
+
+        exitCode.then(code => this.notify(label, code, cancelled));
+        return { cwd, exitCode };
+    }
+
+    dispose(): void {
+        this.processes.forEach(child => this.stop(child));
+        this.processes.clear();
+        this.output.dispose();
+    }
+
+    private stop(child: ChildProcess): void {
+        try {
+            if (child.pid !== undefined && process.platform !== 'win32') {
+                // A negative pid signals the whole process group
+                process.kill(-child.pid, 'SIGTERM');
+            } else {
+                child.kill();
+            }
+        } catch {
+            // The process already ended
+        }
+    }
+
+    private async notify(label: string, exitCode: number | undefined, cancelled: boolean): Promise<void> {
+        this.output.appendLine(cancelled ? 'Cancelled' : `Exit code: ${exitCode ?? 'unknown'}`);
+        this.output.appendLine('');
+
+        const showOutput = 'Show Output';
+        let choice: string | undefined;
+        if (cancelled) {
+            choice = await vscode.window.showInformationMessage(`"${label}" was cancelled`, showOutput);
+        } else if (exitCode === 0) {
+            choice = await vscode.window.showInformationMessage(`"${label}" finished successfully`, showOutput);
+        } else {
+            choice = await vscode.window.showErrorMessage(exitCode === undefined
+                ? `"${label}" ended without an exit code`
+                : `"${label}" failed with exit code ${exitCode}`, showOutput);
+        }
+
+        if (choice === showOutput) {
+            this.output.show(true);
+        }
+    }
+}
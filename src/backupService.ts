@@ -0,0 +1,135 @@
+import * as vscode from 'vscode';
+import { TreeNode } from './types';
+import { CommandTreeProvider } from './commandTreeProvider';
+import { parseCommandData } from './schema';
+
+// Wait for a pause in editing before writing a backup
+const BACKUP_DELAY = 30 * 1000;
+
+/**
+ * A backup of the personal commands
+ */
+export interface Backup {
+    uri: vscode.Uri;
+    timestamp: number;
+    nodes: TreeNode[];
+}
+
+/**
+ * Keeps rolling, timestamped copies of the personal commands in the extension's global storage folder,
+ * wherever they are stored
+ */
+export class BackupService implements vscode.Disposable {
+    private readonly folder: vscode.Uri;
+    private timer: NodeJS.Timeout | undefined;
+    private listener: vscode.Disposable;
+
+    private lastContent: string | undefined;
+
+    constructor(private treeProvider: CommandTreeProvider, globalStorageUri: vscode.Uri) {
+        this.folder = vscode.Uri.joinPath(globalStorageUri, 'backups');
+        this.listener = treeProvider.onDidChangeTreeData(() => {
+            // The tree also changes for things like run status, only back up edits
+            if (this.serialize() !== this.lastContent) {
+                this.scheduleBackup();
+            }
+        });
+    }
+
+    /**
+     * Write a backup of the personal commands, unless it would be the same as the latest one
+     */
+    async backupNow(): Promise<void> {
+        this.cancelScheduledBackup();
+
+        const retention = this.getRetentionCount();
+        if (retention === 0) {
+            return;
+        }
+
+        const content = this.serialize();
+        this.lastContent = content;
+        const backups = await this.listBackupUris();
+        if (backups.length > 0 && await this.readFile(backups[0]) === content) {
+            return;
+        }
+
+        const name = `backup-${new Date().toISOString().replace(/[:.]/g, '-')}.json`;
+        await vscode.workspace.fs.createDirectory(this.folder);
+        await vscode.workspace.fs.writeFile(vscode.Uri.joinPath(this.folder, name), Buffer.from(content, 'utf8'));
+
+        // Drop the oldest backups beyond the retention count, counting the new one
+        for (const uri of backups.slice(retention - 1)) {
+            await vscode.workspace.fs.delete(uri);
+        }
+    }
+
+    /**
+     * Get every readable backup, newest first
+     */
+    async getBackups(): Promise<Backup[]> {
+        const backups: Backup[] = [];
+        for (const uri of await this.listBackupUris()) {
+            try {
+                const content = await this.readFile(uri);
+                const stat = await vscode.workspace.fs.stat(uri);
+                backups.push({ uri, timestamp: stat.mtime, nodes: parseCommandData(content || '') });
+            } catch {
+                // Skip backups that were damaged or edited by hand
+            }
+        }
+        return backups;
+    }
+
+    dispose(): void {
+        this.cancelScheduledBackup();
+        this.listener.dispose();
+    }
+
+    private serialize(): string {
+        return JSON.stringify({ commands: this.treeProvider.getData() }, null, 2) + '\n';
+    }
+
+    private scheduleBackup(): void {
+        this.cancelScheduledBackup();
+        this.timer = setTimeout(() => {
+            this.backupNow().catch(error => vscode.window.showWarningMessage(`Failed to back up commands: ${error}`));
+        }, BACKUP_DELAY);
+    }
+
+    private cancelScheduledBackup(): void {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = undefined;
+        }
+    }
+
+    private getRetentionCount(): number {
+        return vscode.workspace.getConfiguration('commandNotes').get<number>('backupCount', 20);
+    }
+
+    /**
+     * Backup file names sort by the time they were written, so newest first is reverse name order
+     */
+    private async listBackupUris(): Promise<vscode.Uri[]> {
+        try {
+            const entries = await vscode.workspace.fs.readDirectory(this.folder);
+            return entries
+                .filter(([name, type]) => type === vscode.FileType.File && /^backup-.*\.json$/.test(name))
+                .map(([name]) => name)
+                .sort()
+                .reverse()
+                .map(name => vscode.Uri.joinPath(this.folder, name));
+        } catch {
+            return [];
+        }
+    }
+
+    private async readFile(uri: vscode.Uri): Promise<string | undefined> {
+        try {
+            return Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+        } catch {
+            return undefined;
+        }
+    }
+}
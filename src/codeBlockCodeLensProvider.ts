@@ -0,0 +1,50 @@
+import * as vscode from 'vscode';
+import { parseShellCodeBlocks } from './importers';
+
+/**
+ * Adds "Run" and "Save to Command Notes" above the shell code blocks of Markdown files,
+ * such as READMEs and runbooks
+ */
+export class CodeBlockCodeLensProvider implements vscode.CodeLensProvider, vscode.Disposable {
+    private _onDidChangeCodeLenses = new vscode.EventEmitter<void>();
+    readonly onDidChangeCodeLenses = this._onDidChangeCodeLenses.event;
+
+    private listener: vscode.Disposable;
+
+    constructor() {
+        this.listener = vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration('commandNotes.showCodeLens')) {
+                this._onDidChangeCodeLenses.fire();
+            }
+        });
+    }
+
+    provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+        if (!vscode.workspace.getConfiguration('commandNotes').get<boolean>('showCodeLens', true)) {
+            return [];
+        }
+
+        return parseShellCodeBlocks(document.getText()).flatMap(({ line, command }) => {
+            const range = new vscode.Range(line, 0, line, 0);
+            return [
+                new vscode.CodeLens(range, {
+                    title: '$(play) Run',
+                    tooltip: 'Run this code block in the terminal',
+                    command: 'command-notes.runCodeBlock',
+                    arguments: [command]
+                }),
+                new vscode.CodeLens(range, {
+                    title: '$(save) Save to Command Notes',
+                    tooltip: 'Save this code block as a command',
+                    command: 'command-notes.saveCodeBlock',
+                    arguments: [command]
+                })
+            ];
+        });
+    }
+
+    dispose(): void {
+        this.listener.dispose();
+        this._onDidChangeCodeLenses.dispose();
+    }
+}
@@ -0,0 +1,248 @@
+import * as vscode from 'vscode';
+import * as os from 'os';
+import * as path from 'path';
+import { TreeNode } from './types';
+import { StorageService } from './storageService';
+import { parseCommandData } from './schema';
+import { mergeByNodeId } from './merge';
+
+const WORKSPACE_FILE = '.vscode/command-notes.json';
+const WORKSPACE_SOURCE_PREFIX = 'workspace:';
+
+/**
+ * Resolve the commandNotes.storageFile setting to a file, expanding ~ and ${userHome}.
+ * Relative paths are taken from the home folder.
+ */
+export function resolveStorageFile(setting: string): vscode.Uri | undefined {
+    const home = os.homedir();
+    const file = setting.trim()
+        .replace(/^~(?=$|[\\/])/, home)
+        .replace(/\$\{userHome\}/g, home);
+    return file ? vscode.Uri.file(path.resolve(home, file)) : undefined;
+}
+
+/**
+ * Get the name of the workspace folder a source id refers to, or undefined if it isn't a workspace folder's
+ */
+export function getWorkspaceFolderName(sourceId: string): string | undefined {
+    return sourceId.startsWith(WORKSPACE_SOURCE_PREFIX)
+        ? path.posix.basename(vscode.Uri.parse(sourceId.slice(WORKSPACE_SOURCE_PREFIX.length)).path)
+        : undefined;
+}
+
+/**
+ * Merge the commands being saved with changes stored by someone else since they were loaded,
+ * e.g. from another window or machine. Returns the nodes unchanged when nothing else changed.
+ */
+function mergeStoredChanges(base: TreeNode[], nodes: TreeNode[], stored: TreeNode[]): TreeNode[] {
+    if (JSON.stringify(stored) === JSON.stringify(base)) {
+        return nodes;
+    }
+    return mergeByNodeId(base, nodes, stored);
+}
+
+/**
+ * A place commands are loaded from and saved to
+ */
+export interface CommandSource extends vscode.Disposable {
+    readonly id: string;
+    readonly label: string;
+    readonly description?: string;
+    readonly iconId: string;
+
+    /**
+     * Folder that relative working directories of its commands start from, if any
+     */
+    readonly folder?: vscode.Uri;
+
+    /**
+     * Fires when the stored commands were changed outside the tree
+     */
+    readonly onDidChange: vscode.Event<void>;
+
+    load(): Promise<TreeNode[]>;
+    save(nodes: TreeNode[]): Promise<void>;
+}
+
+/**
+ * Personal commands kept in the extension's global storage
+ */
+export class GlobalCommandSource implements CommandSource {
+    readonly id = 'global';
+    readonly label = 'Personal';
+    readonly iconId = 'account';
+
+    private _onDidChange = new vscode.EventEmitter<void>();
+    readonly onDidChange = this._onDidChange.event;
+
+    private base: TreeNode[] = [];
+    private focusListener: vscode.Disposable;
+
+    constructor(private storageService: StorageService) {
+        // Other windows and Settings Sync change global storage without telling us,
+        // so look for their changes whenever the window comes back into focus
+        this.focusListener = vscode.window.onDidChangeWindowState(async state => {
+            if (state.focused && JSON.stringify(await this.storageService.load()) !== JSON.stringify(this.base)) {
+                this._onDidChange.fire();
+            }
+        });
+    }
+
+    async load(): Promise<TreeNode[]> {
+        this.base = await this.storageService.load();
+        return this.base;
+    }
+
+    async save(nodes: TreeNode[]): Promise<void> {
+        const merged = mergeStoredChanges(this.base, nodes, await this.storageService.load());
+        await this.storageService.save(merged);
+        this.base = merged;
+
+        if (merged !== nodes) {
+            this._onDidChange.fire();
+        }
+    }
+
+    dispose(): void {
+        this.focusListener.dispose();
+        this._onDidChange.dispose();
+    }
+}
+
+/**
+ * Commands kept in a JSON file, reloaded when the file changes on disk
+ */
+export class FileCommandSource implements CommandSource {
+    private _onDidChange = new vscode.EventEmitter<void>();
+    readonly onDidChange = this._onDidChange.event;
+
+    private readonly watcher: vscode.FileSystemWatcher;
+    private lastContent: string | undefined;
+    private invalid = false;
+
+    constructor(
+        readonly id: string,
+        readonly label: string,
+        readonly description: string,
+        readonly iconId: string,
+        private readonly uri: vscode.Uri
+    ) {
+        const folder = vscode.Uri.joinPath(uri, '..');
+        this.watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(folder, path.posix.basename(uri.path)));
+        this.watcher.onDidCreate(() => this.handleFileChange());
+        this.watcher.onDidChange(() => this.handleFileChange());
+        this.watcher.onDidDelete(() => this.handleFileChange());
+    }
+
+    /**
+     * Load commands from the file, or nothing if it doesn't exist yet
+     */
+    async load(): Promise<TreeNode[]> {
+        const content = await this.readFile();
+        this.lastContent = content;
+        this.invalid = false;
+
+        if (content === undefined) {
+            return [];
+        }
+
+        try {
+            return parseCommandData(content);
+        } catch (error) {
+            // Don't overwrite a file we couldn't understand
+            this.invalid = true;
+            vscode.window.showErrorMessage(`Failed to read ${this.uri.fsPath}: ${error}`);
+            return [];
+        }
+    }
+
+    /**
+     * Save commands to the file, merging in changes made to it since it was loaded
+     */
+    async save(nodes: TreeNode[]): Promise<void> {
+        if (this.invalid) {
+            // Don't overwrite a file we couldn't understand, and don't let the tree show edits that weren't saved
+            if (nodes.length > 0) {
+                vscode.window.showErrorMessage(`Changes to ${this.label} weren't saved, fix the errors in ${this.uri.fsPath} first`);
+                this._onDidChange.fire();
+            }
+            return;
+        }
+
+        // Don't create the file until there is something to keep in it
+        if (this.lastContent === undefined && nodes.length === 0) {
+            return;
+        }
+
+        let merged = nodes;
+        const stored = await this.readFile();
+        if (stored !== undefined && stored !== this.lastContent) {
+            try {
+                merged = mergeStoredChanges(this.parse(this.lastContent), nodes, parseCommandData(stored));
+            } catch {
+                // Replace a file broken since it was loaded
+            }
+        }
+
+        const content = JSON.stringify({ commands: merged }, null, 2) + '\n';
+        if (content !== stored) {
+            await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(this.uri, '..'));
+            await vscode.workspace.fs.writeFile(this.uri, Buffer.from(content, 'utf8'));
+        }
+        this.lastContent = content;
+
+        if (merged !== nodes) {
+            this._onDidChange.fire();
+        }
+    }
+
+    dispose(): void {
+        this.watcher.dispose();
+        this._onDidChange.dispose();
+    }
+
+    private async handleFileChange(): Promise<void> {
+        // Ignore the events caused by our own writes
+        if (await this.readFile() !== this.lastContent) {
+            this._onDidChange.fire();
+        }
+    }
+
+    private parse(content: string | undefined): TreeNode[] {
+        try {
+            return content === undefined ? [] : parseCommandData(content);
+        } catch {
+            return [];
+        }
+    }
+
+    private async readFile(): Promise<string | undefined> {
+        try {
+            const content = await vscode.workspace.fs.readFile(this.uri);
+            return Buffer.from(content).toString('utf8');
+        } catch {
+            return undefined;
+        }
+    }
+}
+
+/**
+ * Personal commands kept in a file chosen with commandNotes.storageFile, e.g. in a dotfiles repository
+ */
+export class PersonalFileCommandSource extends FileCommandSource {
+    constructor(uri: vscode.Uri) {
+        super('global', 'Personal', uri.fsPath, 'account', uri);
+    }
+}
+
+/**
+ * Shared commands kept in a file inside a workspace folder, so they can be committed
+ */
+export class WorkspaceCommandSource extends FileCommandSource {
+    readonly folder: vscode.Uri;
+
+    constructor(folder: vscode.WorkspaceFolder) {
+        super(`${WORKSPACE_SOURCE_PREFIX}${folder.uri.toString()}`, folder.name, WORKSPACE_FILE, 'root-folder', vscode.Uri.joinPath(folder.uri, WORKSPACE_FILE));
+        this.folder = folder.uri;
+    }
+}
@@ -0,0 +1,101 @@
+import * as vscode from 'vscode';
+import { CommandTreeProvider } from './commandTreeProvider';
+import { PlaceholderResolver } from './placeholderResolver';
+import { parseSecretNames } from './secretResolver';
+import { needsConfirmation } from './safety';
+import { CommandItem, ExecutionSettings, isCommandItem } from './types';
+
+export const TASK_TYPE = 'command-notes';
+
+/**
+ * How a command is referred to in tasks.json, e.g. { "type": "command-notes", "id": "..." }
+ */
+export interface CommandTaskDefinition extends vscode.TaskDefinition {
+    id: string;
+}
+
+/**
+ * Offers every saved command as a shell task, so it can be run from "Run Task",
+ * or used in dependsOn and preLaunchTask. Tasks are named after their group path.
+ */
+export class CommandTaskProvider implements vscode.TaskProvider {
+    constructor(private treeProvider: CommandTreeProvider, private placeholderResolver: PlaceholderResolver) { }
+
+    async provideTasks(): Promise<vscode.Task[]> {
+        const tasks: vscode.Task[] = [];
+        for (const command of this.treeProvider.getAllCommands()) {
+            const task = await this.createStoredTask(command, { type: TASK_TYPE, id: command.id });
+            if (task) {
+                tasks.push(task);
+            }
+        }
+        return tasks;
+    }
+
+    async resolveTask(task: vscode.Task): Promise<vscode.Task | undefined> {
+        const definition = task.definition as CommandTaskDefinition;
+        const node = definition.id ? this.treeProvider.findNodeById(definition.id) : undefined;
+        if (!node || !isCommandItem(node)) {
+            return undefined;
+        }
+        // The definition has to be the one from tasks.json for VS Code to match them up
+        return this.createStoredTask(node, definition);
+    }
+
+    /**
+     * Get the name of the task for a command, e.g. "Docker / Up". Names don't include the section,
+     * so they stay the same when workspace folders are opened or closed. Commands with the same
+     * path get a number after the first one in tree order, e.g. "Docker / Up (2)".
+     */
+    getTaskName(node: CommandItem): string {
+        const name = this.getPathName(node);
+        const sameName = this.treeProvider.getAllCommands().filter(other => this.getPathName(other) === name);
+        const index = sameName.findIndex(other => other.id === node.id);
+        return index > 0 ? `${name} (${index + 1})` : name;
+    }
+
+    /**
+     * Build the task running a command with the given text and terminal settings
+     */
+    createTask(node: CommandItem, commandText: string, settings: ExecutionSettings, definition: CommandTaskDefinition = { type: TASK_TYPE, id: node.id }): vscode.Task {
+        const execution = new vscode.ShellExecution(commandText, {
+            cwd: settings.cwd,
+            env: settings.env,
+            executable: settings.shellPath
+        });
+        const task = new vscode.Task(definition, vscode.TaskScope.Workspace, this.getTaskName(node), TASK_TYPE, execution, []);
+        task.detail = node.description;
+        return task;
+    }
+
+    /**
+     * Build the task for a command as it is stored, with placeholders filled in from their last used values.
+     * Commands that would need to ask for a value, use secrets or have to be confirmed can only be
+     * run as tasks from the tree. VS Code resolves variables like ${file} in tasks itself.
+     */
+    private async createStoredTask(node: CommandItem, definition: CommandTaskDefinition): Promise<vscode.Task | undefined> {
+        const commandText = await this.placeholderResolver.resolveWithoutPrompt(node);
+        const settings = this.treeProvider.getExecutionSettings(node);
+        if (settings.cwd) {
+            // VS Code fills in variables itself, but relative directories have to start where they do in the tree
+            settings.cwd = this.treeProvider.resolveWorkingDirectory(node, settings.cwd);
+        }
+        const texts = [commandText || '', ...Object.values(settings.env || {})];
+        if (commandText === undefined || texts.some(text => parseSecretNames(text).length > 0)) {
+            return undefined;
+        }
+
+        // Tasks run without asking, so they must not skip the confirmation the tree asks for
+        const config = vscode.workspace.getConfiguration('commandNotes');
+        if (needsConfirmation(commandText, node.confirm, this.treeProvider.getTags(node),
+            config.get<string[]>('dangerPatterns', []), config.get<string[]>('typeToConfirmTags', []))) {
+            return undefined;
+        }
+
+        return this.createTask(node, commandText, settings, definition);
+    }
+
+    private getPathName(node: CommandItem): string {
+        return [...this.treeProvider.getGroupPath(node, false), node.label].join(' / ');
+    }
+}
@@ -1,46 +1,147 @@
 import * as vscode from 'vscode';
-import { TreeNode, CommandItem, CommandGroup, isCommandGroup, isCommandItem } from './types';
+import * as path from 'path';
+import { TreeNode, CommandItem, CommandGroup, CommandWorkflow, DeletedNode, ExecutionSettings, RunStatus, isCommandGroup, isCommandItem, isCommandWorkflow, isContainer } from './types';
 import { StorageService } from './storageService';
+import { CommandSource, getWorkspaceFolderName } from './commandSource';
+import { MergePlan, planMerge } from './merge';
 
 export class CommandTreeItem extends vscode.TreeItem {
     constructor(
         public readonly node: TreeNode,
         public readonly collapsibleState: vscode.TreeItemCollapsibleState
     ) {
-        // For command items, show the command itself as the main label
-        // For groups, show the label
-        const displayText = isCommandItem(node) ? node.command : node.label;
-        super(displayText, collapsibleState);
+        super(node.label, collapsibleState);
 
         if (isCommandItem(node)) {
-            this.tooltip = node.command;
-            // Don't set description to avoid duplicate display
-            this.iconPath = new vscode.ThemeIcon('terminal');
+            // Show the command next to the label, unless the label already is the command
+            this.description = node.label !== node.command ? node.command : undefined;
+            this.tooltip = CommandTreeItem.createTooltip(node);
+            this.iconPath = CommandTreeItem.createIcon(node, 'terminal');
             this.contextValue = 'commandItem';
 
             // Add inline action buttons for execute and copy
             this.command = undefined; // We'll use context menu instead
+        } else if (isCommandWorkflow(node)) {
+            this.tooltip = `${node.label} (${node.mode}${node.stopOnFailure ? ', stops on failure' : ''})`;
+            this.description = node.mode;
+            this.iconPath = CommandTreeItem.createIcon(node, 'run-all');
+            this.contextValue = 'commandWorkflow';
         } else {
-            this.tooltip = node.label;
-            this.iconPath = new vscode.ThemeIcon('folder');
+            this.tooltip = node.tags?.length ? `${node.label} (${CommandTreeItem.formatTags(node.tags)})` : node.label;
+            this.iconPath = CommandTreeItem.createIcon(node, 'folder');
             this.contextValue = 'commandGroup';
         }
     }
+
+    /**
+     * Show the label, command, description and rendered notes of a command
+     */
+    private static createTooltip(node: CommandItem): vscode.MarkdownString {
+        const tooltip = new vscode.MarkdownString();
+        tooltip.appendMarkdown('**');
+        tooltip.appendText(node.label);
+        tooltip.appendMarkdown('**\n\n');
+        tooltip.appendCodeblock(node.command, 'sh');
+        if (node.description) {
+            tooltip.appendText(`\n${node.description}\n`);
+        }
+        if (node.tags?.length) {
+            tooltip.appendText(`\n${CommandTreeItem.formatTags(node.tags)}\n`);
+        }
+        if (node.confirm) {
+            tooltip.appendMarkdown('\n_Asks for confirmation before running_\n');
+        }
+        if (node.pinned) {
+            tooltip.appendMarkdown('\n_Pinned to the status bar_\n');
+        }
+        if (node.notes) {
+            tooltip.appendMarkdown('\n---\n\n');
+            tooltip.appendMarkdown(node.notes);
+        }
+        return tooltip;
+    }
+
+    /**
+     * Use the node's own icon and color, falling back to the icon for its type
+     */
+    private static createIcon(node: TreeNode, defaultIcon: string): vscode.ThemeIcon {
+        return new vscode.ThemeIcon(node.icon || defaultIcon, node.color ? new vscode.ThemeColor(node.color) : undefined);
+    }
+
+    private static formatTags(tags: string[]): string {
+        return tags.map(tag => `#${tag}`).join(' ');
+    }
 }
 
+const RUN_STATUS_ICONS: Record<RunStatus, vscode.ThemeIcon> = {
+    queued: new vscode.ThemeIcon('circle-outline'),
+    running: new vscode.ThemeIcon('loading~spin'),
+    succeeded: new vscode.ThemeIcon('pass', new vscode.ThemeColor('testing.iconPassed')),
+    failed: new vscode.ThemeIcon('error', new vscode.ThemeColor('testing.iconFailed')),
+    sent: new vscode.ThemeIcon('check'),
+    skipped: new vscode.ThemeIcon('debug-step-over')
+};
+
+// How many edits can be undone
+const MAX_UNDO = 50;
+
+// How long the result of a run stays in the tree, in milliseconds
+const FINISHED_RUN_STATUS_DURATION = 10000;
+
+const TRASH_ID = 'commandNotes.trash';
+const FAVORITES_ID = 'commandNotes.favorites';
+
 export class CommandTreeProvider implements vscode.TreeDataProvider<TreeNode>, vscode.TreeDragAndDropController<TreeNode> {
     private _onDidChangeTreeData: vscode.EventEmitter<TreeNode | undefined | null | void> = new vscode.EventEmitter<TreeNode | undefined | null | void>();
     readonly onDidChangeTreeData: vscode.Event<TreeNode | undefined | null | void> = this._onDidChangeTreeData.event;
 
-    dropMimeTypes = ['application/vnd.code.tree.commandNotes'];
+    private _onDidChangeFilter = new vscode.EventEmitter<string | undefined>();
+    readonly onDidChangeFilter = this._onDidChangeFilter.event;
+
+    dropMimeTypes = ['application/vnd.code.tree.commandNotes', 'text/plain'];
     dragMimeTypes = ['application/vnd.code.tree.commandNotes'];
 
     private data: TreeNode[] = [];
+    private sources: CommandSource[] = [];
+    private sourceListeners: vscode.Disposable[] = [];
+    private runStatus = new Map<string, RunStatus>();
+    private runStatusTimers = new Map<string, NodeJS.Timeout>();
+    private filter: string | undefined;
+
+    // Snapshots of the tree before and after each edit
+    private undoStack: TreeNode[][] = [];
+    private redoStack: TreeNode[][] = [];
+    private lastSaved: TreeNode[] = [];
+
+    private batchDepth = 0;
+
+    private trash: DeletedNode[] = [];
+    private readonly trashSection: CommandGroup = { id: TRASH_ID, type: 'group', label: 'Recently Deleted', children: [] };
+
+    // Pinned commands are shown again at the top, as copies so they get their own tree items
+    private readonly favoritesSection: CommandGroup = { id: FAVORITES_ID, type: 'group', label: 'Favorites', children: [] };
+    private favorites = new WeakSet<TreeNode>();
 
     constructor(private storageService: StorageService) { }
 
+    /**
+     * Replace the sources commands are loaded from and reload the tree
+     */
+    async setSources(sources: CommandSource[]): Promise<void> {
+        this.disposeSources();
+        this.sources = sources;
+        this.sourceListeners = sources.map(source => source.onDidChange(() => this.reloadSource(source)));
+        await this.initialize();
+    }
+
     async initialize(): Promise<void> {
-        this.data = await this.storageService.load();
+        if (this.useSections) {
+            this.data = await Promise.all(this.sources.map(async source => this.createSection(source, await source.load())));
+        } else {
+            this.data = this.sources.length > 0 ? await this.sources[0].load() : [];
+        }
+        this.resetUndo();
+        this.trash = this.pruneTrash(await this.storageService.loadTrash());
         this.refresh();
     }
 
@@ -49,76 +150,169 @@ export class CommandTreeProvider implements vscode.TreeDataProvider<TreeNode>, v
     }
 
     getTreeItem(element: TreeNode): vscode.TreeItem {
-        const isGroup = isCommandGroup(element);
+        if (element === this.favoritesSection) {
+            const item = new vscode.TreeItem(element.label, vscode.TreeItemCollapsibleState.Expanded);
+            item.id = FAVORITES_ID;
+            item.description = `${this.getPinnedCommands().length}`;
+            item.tooltip = 'Commands pinned to the status bar';
+            item.iconPath = new vscode.ThemeIcon('star-full');
+            item.contextValue = 'commandFavorites';
+            return item;
+        }
+
+        if (element === this.trashSection) {
+            const item = new vscode.TreeItem(element.label, vscode.TreeItemCollapsibleState.Collapsed);
+            item.id = TRASH_ID;
+            item.description = `${this.trash.length}`;
+            item.tooltip = `Deleted items are kept for ${this.getTrashRetentionDays()} days`;
+            item.iconPath = new vscode.ThemeIcon('trash');
+            item.contextValue = 'commandTrash';
+            return item;
+        }
+
+        const deleted = this.getTrashEntry(element);
+        if (deleted) {
+            const item = new CommandTreeItem(element, vscode.TreeItemCollapsibleState.None);
+            item.id = `trash:${element.id}`;
+            item.description = `deleted ${new Date(deleted.deletedAt).toLocaleDateString()}`;
+            item.contextValue = 'deletedNode';
+            return item;
+        }
+
+        const isGroup = isContainer(element);
         const collapsibleState = isGroup
             ? vscode.TreeItemCollapsibleState.Expanded
             : vscode.TreeItemCollapsibleState.None;
 
-        return new CommandTreeItem(element, collapsibleState);
+        const item = new CommandTreeItem(element, collapsibleState);
+
+        // Filtered items get their own ids, so VS Code expands them and
+        // restores the previous collapse state once the filter is cleared
+        item.id = this.filter ? `filter:${element.id}` : element.id;
+
+        if (this.favorites.has(element)) {
+            item.id = `favorite:${element.id}`;
+            item.description = this.getGroupPath(element).join(' / ') || undefined;
+        }
+
+        const source = this.getSectionSource(element);
+        if (source) {
+            item.description = source.description;
+            item.tooltip = source.description ? `${source.label} (${source.description})` : source.label;
+            item.iconPath = new vscode.ThemeIcon(source.iconId);
+            item.contextValue = 'commandSection';
+        }
+
+        const status = this.runStatus.get(element.id);
+        if (status) {
+            item.iconPath = RUN_STATUS_ICONS[status];
+            item.description = status;
+        }
+
+        return item;
     }
 
     getChildren(element?: TreeNode): Thenable<TreeNode[]> {
         if (!element) {
-            // Root level
-            return Promise.resolve(this.data);
+            // Root level, with favorites at the top and deleted items at the bottom
+            const nodes = this.applyFilter(this.data);
+            if (this.filter) {
+                return Promise.resolve(nodes);
+            }
+            return Promise.resolve([
+                ...(this.getPinnedCommands().length > 0 ? [this.favoritesSection] : []),
+                ...nodes,
+                ...(this.trash.length > 0 ? [this.trashSection] : [])
+            ]);
+        }
+
+        if (element === this.favoritesSection) {
+            return Promise.resolve(this.getPinnedCommands().map(command => {
+                const favorite = { ...command };
+                this.favorites.add(favorite);
+                return favorite;
+            }));
         }
 
-        if (isCommandGroup(element)) {
-            return Promise.resolve(element.children);
+        if (element === this.trashSection) {
+            return Promise.resolve(this.trash.map(entry => entry.node));
+        }
+
+        if (isContainer(element)) {
+            return Promise.resolve(this.applyFilter(element.children, element));
         }
 
         return Promise.resolve([]);
     }
 
     getParent(element: TreeNode): vscode.ProviderResult<TreeNode> {
+        if (this.getTrashEntry(element)) {
+            return this.trashSection;
+        }
+        if (this.favorites.has(element)) {
+            return this.favoritesSection;
+        }
         const parent = this.storageService.findParent(this.data, element.id);
         return parent;
     }
 
     // Drag and Drop implementation
     async handleDrag(source: TreeNode[], dataTransfer: vscode.DataTransfer, token: vscode.CancellationToken): Promise<void> {
-        dataTransfer.set('application/vnd.code.tree.commandNotes', new vscode.DataTransferItem(source));
+        // Sections are fixed at the root, deleted items have to be restored first,
+        // and favorites only show pinned commands that live elsewhere in the tree
+        const nodes = source.filter(node => !this.isSection(node) && node !== this.trashSection && node !== this.favoritesSection
+            && !this.favorites.has(node) && !this.getTrashEntry(node));
+        if (nodes.length === 0) {
+            return;
+        }
+        dataTransfer.set('application/vnd.code.tree.commandNotes', new vscode.DataTransferItem(nodes));
     }
 
     async handleDrop(target: TreeNode | undefined, dataTransfer: vscode.DataTransfer, token: vscode.CancellationToken): Promise<void> {
-        const transferItem = dataTransfer.get('application/vnd.code.tree.commandNotes');
-        if (!transferItem) {
+        if (target && (target === this.trashSection || this.getTrashEntry(target))) {
             return;
         }
 
-        const source: TreeNode[] = transferItem.value;
-        if (source.length === 0) {
+        const transferItem = dataTransfer.get('application/vnd.code.tree.commandNotes');
+
+        // Dropping commands on Favorites pins them
+        if (target && (target === this.favoritesSection || this.favorites.has(target))) {
+            const commands = (transferItem?.value as TreeNode[] | undefined || []).filter(isCommandItem);
+            await this.batch(async () => {
+                for (const command of commands) {
+                    await this.updateNode(command.id, { pinned: true });
+                }
+            });
             return;
         }
 
-        const sourceNode = source[0];
-
-        if (!target) {
-            // Dropped at root level
-            this.data = this.storageService.deleteNode(this.data, sourceNode.id);
-            this.data.push(sourceNode);
-        } else if (isCommandGroup(target)) {
-            // Dropped into a group
-            this.data = this.storageService.moveNode(this.data, sourceNode.id, target.id, 'inside');
-        } else {
-            // Dropped near another item (we'll add it after)
-            this.data = this.storageService.moveNode(this.data, sourceNode.id, target.id, 'after');
+        if (transferItem) {
+            await this.moveDroppedNodes(transferItem.value as TreeNode[], target);
+            return;
         }
 
-        await this.storageService.save(this.data);
-        this.refresh();
+        // Text dragged from an editor or terminal becomes a new command
+        const text = await dataTransfer.get('text/plain')?.asString();
+        if (text?.trim()) {
+            await this.addDroppedCommand(text.trim(), target);
+        }
     }
 
     // Data manipulation methods
-    async addCommand(label: string, command: string, description: string | undefined, parentId?: string): Promise<void> {
+    /**
+     * Add a new command and return its ID
+     */
+    async addCommand(label: string, command: string, description: string | undefined, parentId?: string, notes?: string): Promise<string> {
         const newCommand: CommandItem = {
             id: this.storageService.generateId(),
             type: 'command',
             label,
             command,
-            description
+            description,
+            notes
         };
 
+        parentId = parentId || this.defaultParentId();
         if (parentId) {
             // Add to specific group
             this.data = this.addToGroup(this.data, parentId, newCommand);
@@ -127,11 +321,41 @@ export class CommandTreeProvider implements vscode.TreeDataProvider<TreeNode>, v
             this.data.push(newCommand);
         }
 
-        await this.storageService.save(this.data);
+        await this.save();
         this.refresh();
+        return newCommand.id;
     }
 
-    async addGroup(label: string, parentId?: string): Promise<void> {
+    /**
+     * Add several commands at once, optionally wrapped in a new group
+     */
+    async addCommands(commands: Pick<CommandItem, 'label' | 'command' | 'description'>[], parentId?: string, groupLabel?: string): Promise<void> {
+        const newCommands: TreeNode[] = commands.map(command => ({
+            id: this.storageService.generateId(),
+            type: 'command',
+            ...command
+        }));
+        const newNodes: TreeNode[] = groupLabel
+            ? [{ id: this.storageService.generateId(), type: 'group', label: groupLabel, children: newCommands }]
+            : newCommands;
+
+        parentId = parentId || this.defaultParentId();
+        for (const newNode of newNodes) {
+            if (parentId) {
+                this.data = this.addToGroup(this.data, parentId, newNode);
+            } else {
+                this.data.push(newNode);
+            }
+        }
+
+        await this.save();
+        this.refresh();
+    }
+
+    /**
+     * Add a new group and return its ID
+     */
+    async addGroup(label: string, parentId?: string): Promise<string> {
         const newGroup: CommandGroup = {
             id: this.storageService.generateId(),
             type: 'group',
@@ -139,50 +363,258 @@ export class CommandTreeProvider implements vscode.TreeDataProvider<TreeNode>, v
             children: []
         };
 
+        parentId = parentId || this.defaultParentId();
         if (parentId) {
             this.data = this.addToGroup(this.data, parentId, newGroup);
         } else {
             this.data.push(newGroup);
         }
 
-        await this.storageService.save(this.data);
+        await this.save();
+        this.refresh();
+        return newGroup.id;
+    }
+
+    async addWorkflow(label: string, parentId?: string): Promise<void> {
+        const newWorkflow: CommandWorkflow = {
+            id: this.storageService.generateId(),
+            type: 'workflow',
+            label,
+            children: [],
+            mode: 'sequential',
+            stopOnFailure: true
+        };
+
+        parentId = parentId || this.defaultParentId();
+        if (parentId) {
+            this.data = this.addToGroup(this.data, parentId, newWorkflow);
+        } else {
+            this.data.push(newWorkflow);
+        }
+
+        await this.save();
         this.refresh();
     }
 
+    /**
+     * Run several edits as one, so they are saved once and undone together
+     */
+    async batch(edits: () => Promise<void>): Promise<void> {
+        this.batchDepth++;
+        try {
+            await edits();
+        } finally {
+            this.batchDepth--;
+        }
+
+        if (this.batchDepth === 0) {
+            await this.save();
+            this.refresh();
+        }
+    }
+
+    /**
+     * Put a copy of each node, with new ids all the way down, right after it
+     */
+    async duplicateNodes(nodes: TreeNode[]): Promise<void> {
+        await this.batch(async () => {
+            for (const node of this.getOutermost(nodes)) {
+                const original = this.findNodeById(node.id);
+                if (!original || this.isSection(original)) {
+                    continue;
+                }
+
+                const copy = this.storageService.cloneWithNewIds(original);
+                copy.label = `${original.label} (copy)`;
+
+                const parent = this.storageService.findParent(this.data, original.id);
+                const siblings = parent ? parent.children : this.data;
+                siblings.splice(siblings.indexOf(original) + 1, 0, copy);
+            }
+        });
+    }
+
+    /**
+     * Add copies of nodes, with new ids, to the end of a group, or after a command
+     */
+    async pasteNodes(nodes: TreeNode[], target: TreeNode | undefined): Promise<void> {
+        await this.batch(async () => {
+            let anchorId = target && !isContainer(target) ? target.id : undefined;
+            const parentId = target && isContainer(target) ? target.id : this.defaultParentId();
+
+            for (const node of nodes) {
+                const copy = this.storageService.cloneWithNewIds(node);
+                if (anchorId) {
+                    const parent = this.storageService.findParent(this.data, anchorId);
+                    const siblings = parent ? parent.children : this.data;
+                    siblings.splice(siblings.findIndex(sibling => sibling.id === anchorId) + 1, 0, copy);
+                    anchorId = copy.id;
+                } else if (parentId) {
+                    this.data = this.addToGroup(this.data, parentId, copy);
+                } else {
+                    this.data.push(copy);
+                }
+            }
+        });
+    }
+
+    /**
+     * Move nodes into a new group, placed where the first of them was. Returns the group's id.
+     */
+    async groupNodes(nodes: TreeNode[], label: string): Promise<string | undefined> {
+        const outermost = this.getOutermost(nodes).filter(node => this.findNodeById(node.id) && !this.isSection(node));
+        if (outermost.length === 0) {
+            return undefined;
+        }
+
+        const newGroup: CommandGroup = {
+            id: this.storageService.generateId(),
+            type: 'group',
+            label,
+            children: []
+        };
+
+        await this.batch(async () => {
+            // Groups can't go inside workflows, so a group of workflow steps goes next to the workflow
+            let anchor: TreeNode = outermost[0];
+            let parent = this.storageService.findParent(this.data, anchor.id);
+            if (parent && isCommandWorkflow(parent)) {
+                anchor = parent;
+                parent = this.storageService.findParent(this.data, anchor.id);
+            }
+
+            const siblings = parent ? parent.children : this.data;
+            siblings.splice(siblings.findIndex(sibling => sibling.id === anchor.id), 0, newGroup);
+
+            for (const node of outermost) {
+                this.data = this.storageService.moveNode(this.data, node.id, newGroup.id, 'inside');
+            }
+        });
+        return newGroup.id;
+    }
+
+    /**
+     * Delete a node, keeping it in "Recently Deleted" so it can be restored
+     */
     async deleteNode(id: string): Promise<void> {
+        const node = this.findNodeById(id);
+        if (!node || this.isSectionId(id)) {
+            return;
+        }
+
+        if (this.getTrashRetentionDays() > 0) {
+            const parent = this.storageService.findParent(this.data, id);
+            const siblings = parent ? parent.children : this.data;
+            this.trash.unshift({
+                node: structuredClone(node),
+                parentId: parent?.id,
+                sourceId: this.getNodeSource(id)?.id,
+                index: siblings.findIndex(sibling => sibling.id === id),
+                deletedAt: Date.now()
+            });
+            await this.saveTrash();
+        }
+
         this.data = this.storageService.deleteNode(this.data, id);
-        await this.storageService.save(this.data);
+        await this.save();
         this.refresh();
     }
 
-    async updateNode(id: string, updates: Partial<CommandItem | CommandGroup>): Promise<void> {
-        this.data = this.storageService.updateNode(this.data, id, updates);
-        await this.storageService.save(this.data);
+    /**
+     * Put a deleted node back where it was. Resolves false if its group is gone
+     * and it was restored to the top of its source instead, or if its workspace folder isn't open.
+     */
+    async restoreNode(node: TreeNode): Promise<boolean> {
+        const entry = this.getTrashEntry(node);
+        if (!entry || this.getClosedTrashFolder(node)) {
+            return false;
+        }
+        this.trash = this.trash.filter(other => other !== entry);
+        await this.saveTrash();
+
+        // It may be back already, e.g. after undoing the delete
+        const restored = this.findNodeById(entry.node.id) ? this.storageService.cloneWithNewIds(entry.node) : entry.node;
+
+        const parent = entry.parentId ? this.findNodeById(entry.parentId) : null;
+        const fitsParent = parent && isContainer(parent) && (!isCommandWorkflow(parent) || isCommandItem(restored));
+        const siblings = fitsParent
+            ? parent.children
+            : this.getSourceNodes(this.sources.find(source => source.id === entry.sourceId) || this.sources[0]);
+        siblings.splice(Math.min(entry.index, siblings.length), 0, restored);
+
+        await this.save();
         this.refresh();
+        return !!fitsParent || !entry.parentId;
     }
 
-    async moveUp(id: string): Promise<void> {
-        const parent = this.storageService.findParent(this.data, id);
-        const siblings = parent ? parent.children : this.data;
-        const index = siblings.findIndex(node => node.id === id);
+    /**
+     * Get the name of the workspace folder a node in "Recently Deleted" was deleted from, if that folder isn't open.
+     * Such nodes stay deleted until it is, instead of ending up in another section.
+     */
+    getClosedTrashFolder(node: TreeNode): string | undefined {
+        const sourceId = this.getTrashEntry(node)?.sourceId;
+        return sourceId && !this.sources.some(source => source.id === sourceId) ? getWorkspaceFolderName(sourceId) : undefined;
+    }
 
-        if (index > 0) {
-            [siblings[index - 1], siblings[index]] = [siblings[index], siblings[index - 1]];
-            await this.storageService.save(this.data);
-            this.refresh();
-        }
+    /**
+     * Remove a node from "Recently Deleted" for good
+     */
+    async deleteFromTrash(node: TreeNode): Promise<void> {
+        this.trash = this.trash.filter(entry => entry.node !== node);
+        await this.saveTrash();
+        this.refresh();
     }
 
-    async moveDown(id: string): Promise<void> {
-        const parent = this.storageService.findParent(this.data, id);
-        const siblings = parent ? parent.children : this.data;
-        const index = siblings.findIndex(node => node.id === id);
+    async emptyTrash(): Promise<void> {
+        this.trash = [];
+        await this.saveTrash();
+        this.refresh();
+    }
 
-        if (index >= 0 && index < siblings.length - 1) {
-            [siblings[index], siblings[index + 1]] = [siblings[index + 1], siblings[index]];
-            await this.storageService.save(this.data);
-            this.refresh();
+    /**
+     * Go back to the tree before the last edit. Resolves false if there is nothing to undo.
+     */
+    async undo(): Promise<boolean> {
+        const previous = this.undoStack.pop();
+        if (!previous) {
+            return false;
         }
+        this.redoStack.push(this.lastSaved);
+        await this.restoreSnapshot(previous);
+        return true;
+    }
+
+    /**
+     * Apply the last undone edit again. Resolves false if there is nothing to redo.
+     */
+    async redo(): Promise<boolean> {
+        const next = this.redoStack.pop();
+        if (!next) {
+            return false;
+        }
+        this.undoStack.push(this.lastSaved);
+        await this.restoreSnapshot(next);
+        return true;
+    }
+
+    async updateNode(id: string, updates: Partial<TreeNode>): Promise<void> {
+        this.data = this.storageService.updateNode(this.data, id, updates);
+        await this.save();
+        this.refresh();
+    }
+
+    /**
+     * Move nodes one place up among their siblings. Neighbouring nodes move together as a block.
+     */
+    async moveUp(ids: string[]): Promise<void> {
+        await this.shiftNodes(ids, -1);
+    }
+
+    /**
+     * Move nodes one place down among their siblings. Neighbouring nodes move together as a block.
+     */
+    async moveDown(ids: string[]): Promise<void> {
+        await this.shiftNodes(ids, 1);
     }
 
     findNodeById(id: string): TreeNode | null {
@@ -190,30 +622,541 @@ export class CommandTreeProvider implements vscode.TreeDataProvider<TreeNode>, v
     }
 
     /**
-     * Get all data for export
+     * Get every command in a group and its subgroups, in tree order
+     */
+    getDescendantCommands(node: TreeNode): CommandItem[] {
+        const current = this.findNodeById(node.id) || node;
+        if (isCommandItem(current)) {
+            return [current];
+        }
+        return current.children.flatMap(child => this.getDescendantCommands(child));
+    }
+
+    /**
+     * Only show commands matching the query, and the groups containing them
+     */
+    setFilter(query: string | undefined): void {
+        this.filter = query?.trim() || undefined;
+        this._onDidChangeFilter.fire(this.filter);
+        this.refresh();
+    }
+
+    getFilter(): string | undefined {
+        return this.filter;
+    }
+
+    /**
+     * Sort nodes in tree order and drop the ones inside another of them, so each is handled once.
+     * Nodes that aren't in the tree, like deleted ones, keep their order at the end.
+     */
+    getOutermost(nodes: TreeNode[]): TreeNode[] {
+        const ids = new Set(nodes.map(node => node.id));
+        const position = this.getTreeOrder();
+        const nested = new Set<string>();
+
+        const walk = (children: TreeNode[], insideSelected: boolean): void => {
+            for (const child of children) {
+                if (insideSelected) {
+                    nested.add(child.id);
+                }
+                if (isContainer(child)) {
+                    walk(child.children, insideSelected || ids.has(child.id));
+                }
+            }
+        };
+        walk(this.data, false);
+
+        return nodes
+            .filter((node, index) => !nested.has(node.id) && nodes.findIndex(other => other.id === node.id) === index)
+            .sort((a, b) => (position.get(a.id) ?? position.size) - (position.get(b.id) ?? position.size));
+    }
+
+    /**
+     * Get every command in the tree, in tree order
+     */
+    getAllCommands(): CommandItem[] {
+        return this.data.flatMap(node => this.getDescendantCommands(node));
+    }
+
+    /**
+     * Get the pinned commands in tree order, as shown in the status bar and Favorites
+     */
+    getPinnedCommands(): CommandItem[] {
+        return this.getAllCommands().filter(command => command.pinned);
+    }
+
+    /**
+     * Get every group in the tree, in tree order
+     */
+    getAllGroups(nodes: TreeNode[] = this.data): CommandGroup[] {
+        return nodes.filter(isCommandGroup).flatMap(group => [group, ...this.getAllGroups(group.children)]);
+    }
+
+    /**
+     * Get the tags of a node together with the tags of the groups containing it
+     */
+    getTags(node: TreeNode): string[] {
+        const tags = new Set<string>();
+        for (let current = this.findNodeById(node.id); current; current = this.storageService.findParent(this.data, current.id)) {
+            current.tags?.forEach(tag => tags.add(tag));
+        }
+        return [...tags];
+    }
+
+    /**
+     * Get every tag used in the tree, sorted
+     */
+    getAllTags(): string[] {
+        const tags = new Set<string>();
+        const collect = (nodes: TreeNode[]): void => {
+            for (const node of nodes) {
+                node.tags?.forEach(tag => tags.add(tag));
+                if (isContainer(node)) {
+                    collect(node.children);
+                }
+            }
+        };
+        collect(this.data);
+        return [...tags].sort((a, b) => a.localeCompare(b));
+    }
+
+    /**
+     * Get the labels of the groups containing a node, outermost first.
+     * Without withSection, the Personal or workspace folder section it is in is left out.
+     */
+    getGroupPath(node: TreeNode, withSection = true): string[] {
+        const path: string[] = [];
+        for (let parent = this.storageService.findParent(this.data, node.id); parent; parent = this.storageService.findParent(this.data, parent.id)) {
+            if (withSection || !this.isSection(parent)) {
+                path.unshift(parent.label);
+            }
+        }
+        return path;
+    }
+
+    /**
+     * Show the run state of a command in the tree, or clear it.
+     * Results of finished runs are cleared after a few seconds.
+     */
+    setRunStatus(id: string, status: RunStatus | undefined): void {
+        clearTimeout(this.runStatusTimers.get(id));
+        this.runStatusTimers.delete(id);
+
+        if (status) {
+            this.runStatus.set(id, status);
+            if (status !== 'queued' && status !== 'running') {
+                this.runStatusTimers.set(id, setTimeout(() => this.setRunStatus(id, undefined), FINISHED_RUN_STATUS_DURATION));
+            }
+        } else {
+            this.runStatus.delete(id);
+        }
+        this.refresh();
+    }
+
+    /**
+     * Get the terminal settings for a node, inherited from its groups
+     */
+    getExecutionSettings(node: TreeNode): ExecutionSettings {
+        const chain: TreeNode[] = [];
+        for (let current = this.findNodeById(node.id); current; current = this.storageService.findParent(this.data, current.id)) {
+            chain.unshift(current);
+        }
+
+        return chain.reduce<ExecutionSettings>((settings, current) => ({
+            ...settings,
+            ...current.execution,
+            env: current.execution?.env || settings.env ? { ...settings.env, ...current.execution?.env } : undefined
+        }), {});
+    }
+
+    /**
+     * Make a relative working directory absolute, starting from the workspace folder of the node's
+     * section, or the first workspace folder. Directories starting with a variable are left as they are.
+     */
+    resolveWorkingDirectory(node: TreeNode, cwd: string): string {
+        if (path.isAbsolute(cwd) || cwd.startsWith('${')) {
+            return cwd;
+        }
+        const folder = this.getNodeSource(node.id)?.folder || vscode.workspace.workspaceFolders?.[0]?.uri;
+        return folder ? path.join(folder.fsPath, cwd) : cwd;
+    }
+
+    /**
+     * Check whether a node is a root section standing for a command source
+     */
+    isSection(node: TreeNode): boolean {
+        return this.isSectionId(node.id);
+    }
+
+    /**
+     * Get all personal data for export
      */
     getData(): TreeNode[] {
-        return this.data;
+        return this.getSourceNodes(this.sources[0]);
     }
 
     /**
-     * Import data from external source
+     * Import personal data from external source
      */
     async importData(nodes: TreeNode[]): Promise<void> {
-        this.data = nodes;
-        await this.storageService.save(this.data);
+        this.setSourceNodes(this.sources[0], nodes);
+        await this.save();
+        this.refresh();
+    }
+
+    /**
+     * Work out what merging imported nodes into the personal data would change
+     */
+    planImport(nodes: TreeNode[]): MergePlan {
+        return planMerge(this.getData(), nodes, () => this.storageService.generateId());
+    }
+
+    /**
+     * Import data from external source into a new group
+     */
+    async appendData(nodes: TreeNode[], groupLabel: string): Promise<void> {
+        const newGroup: CommandGroup = {
+            id: this.storageService.generateId(),
+            type: 'group',
+            label: groupLabel,
+            children: nodes.map(node => this.storageService.cloneWithNewIds(node))
+        };
+
+        const parentId = this.defaultParentId();
+        if (parentId) {
+            this.data = this.addToGroup(this.data, parentId, newGroup);
+        } else {
+            this.data.push(newGroup);
+        }
+
+        await this.save();
+        this.refresh();
+    }
+
+    dispose(): void {
+        this.disposeSources();
+        this.runStatusTimers.forEach(timer => clearTimeout(timer));
+        this.runStatusTimers.clear();
+        this._onDidChangeTreeData.dispose();
+        this._onDidChangeFilter.dispose();
+    }
+
+    private applyFilter(nodes: TreeNode[], parent?: TreeNode): TreeNode[] {
+        if (!this.filter) {
+            return nodes;
+        }
+        const inheritedTags = parent ? this.getTags(parent) : [];
+        return nodes.filter(node => this.matchesFilter(node, inheritedTags));
+    }
+
+    /**
+     * Commands match when every word of the filter appears in them or their tags (as #tag),
+     * groups when any command inside them matches
+     */
+    private matchesFilter(node: TreeNode, inheritedTags: string[]): boolean {
+        const tags = [...inheritedTags, ...(node.tags || [])];
+        if (isContainer(node)) {
+            return node.children.some(child => this.matchesFilter(child, tags));
+        }
+
+        const text = [node.label, node.command, node.description || '', ...tags.map(tag => `#${tag}`)].join('\n').toLowerCase();
+        const words = (this.filter || '').toLowerCase().split(/\s+/);
+        return words.every(word => text.includes(word));
+    }
+
+    /**
+     * Show one root section per source once there is more than one source
+     */
+    private get useSections(): boolean {
+        return this.sources.length > 1;
+    }
+
+    private isSectionId(id: string): boolean {
+        return this.useSections && this.sources.some(source => source.id === id);
+    }
+
+    private getSectionSource(node: TreeNode): CommandSource | undefined {
+        return this.useSections ? this.sources.find(source => source.id === node.id) : undefined;
+    }
+
+    private createSection(source: CommandSource, children: TreeNode[]): CommandGroup {
+        return {
+            id: source.id,
+            type: 'group',
+            label: source.label,
+            children
+        };
+    }
+
+    /**
+     * Nodes added without a parent go to the personal section
+     */
+    private defaultParentId(): string | undefined {
+        return this.useSections ? this.sources[0].id : undefined;
+    }
+
+    private getSourceNodes(source: CommandSource | undefined, data = this.data): TreeNode[] {
+        if (!this.useSections) {
+            return data;
+        }
+        const section = data.find(node => node.id === source?.id);
+        return section && isCommandGroup(section) ? section.children : [];
+    }
+
+    private setSourceNodes(source: CommandSource | undefined, nodes: TreeNode[]): void {
+        if (!this.useSections) {
+            this.data = nodes;
+            return;
+        }
+        this.data = this.data.map(node => node.id === source?.id && isCommandGroup(node) ? { ...node, children: nodes } : node);
+    }
+
+    private async reloadSource(source: CommandSource): Promise<void> {
+        this.setSourceNodes(source, await source.load());
+
+        // Older snapshots would undo the outside change too
+        this.resetUndo();
+        this.refresh();
+    }
+
+    /**
+     * Remember the tree before this edit for undo, then write it to the sources
+     */
+    private async save(): Promise<void> {
+        // Batched edits are saved once at the end
+        if (this.batchDepth > 0) {
+            return;
+        }
+
+        if (JSON.stringify(this.data) !== JSON.stringify(this.lastSaved)) {
+            this.undoStack.push(this.lastSaved);
+            if (this.undoStack.length > MAX_UNDO) {
+                this.undoStack.shift();
+            }
+            this.redoStack = [];
+        }
+        await this.writeSources();
+    }
+
+    /**
+     * Write each source's part of the tree back to where it came from, if it changed since the last save
+     */
+    private async writeSources(): Promise<void> {
+        const previous = this.lastSaved;
+        this.lastSaved = structuredClone(this.data);
+
+        const changed = this.sources.filter(source =>
+            JSON.stringify(this.getSourceNodes(source)) !== JSON.stringify(this.getSourceNodes(source, previous)));
+        await Promise.all(changed.map(source => source.save(this.getSourceNodes(source))));
+    }
+
+    private resetUndo(): void {
+        this.undoStack = [];
+        this.redoStack = [];
+        this.lastSaved = structuredClone(this.data);
+    }
+
+    private async restoreSnapshot(snapshot: TreeNode[]): Promise<void> {
+        this.data = structuredClone(snapshot);
+        await this.writeSources();
+
+        // Nodes brought back by undo don't need to stay in "Recently Deleted"
+        const restored = this.trash.filter(entry => this.findNodeById(entry.node.id));
+        if (restored.length > 0) {
+            this.trash = this.trash.filter(entry => !restored.includes(entry));
+            await this.saveTrash();
+        }
+        this.refresh();
+    }
+
+    /**
+     * Move dragged nodes to where they were dropped, keeping their relative order
+     */
+    private async moveDroppedNodes(dragged: TreeNode[], target: TreeNode | undefined): Promise<void> {
+        const nodes = this.getOutermost(dragged).filter(node => node.id !== target?.id);
+        if (nodes.length === 0) {
+            return;
+        }
+
+        const position = target ? await this.getDropPosition(nodes, target) : 'inside';
+        if (!position) {
+            return;
+        }
+
+        // Workflows can only contain commands
+        const destination = target && (position === 'inside' ? target : this.storageService.findParent(this.data, target.id));
+        const movable = destination && isCommandWorkflow(destination) ? nodes.filter(isCommandItem) : nodes;
+
+        await this.batch(async () => {
+            let anchorId = target?.id;
+            for (const node of movable) {
+                if (!anchorId && this.useSections) {
+                    // Dropped at root level, which belongs to the personal section
+                    this.data = this.storageService.moveNode(this.data, node.id, this.sources[0].id, 'inside');
+                } else if (!anchorId) {
+                    // Dropped at root level
+                    const moved = this.findNodeById(node.id) || node;
+                    this.data = this.storageService.deleteNode(this.data, node.id);
+                    this.data.push(moved);
+                } else {
+                    const before = this.data;
+                    this.data = this.storageService.moveNode(this.data, node.id, anchorId, position);
+
+                    // Nodes dropped after the target follow each other
+                    if (position === 'after' && this.data !== before) {
+                        anchorId = node.id;
+                    }
+                }
+            }
+        });
+    }
+
+    /**
+     * VS Code doesn't say where on the target nodes were dropped, so nodes dropped on an item go
+     * before it when dragged up and after it when dragged down. Commands dropped on a group or
+     * workflow go inside it, and a group dropped on a group asks where to go.
+     */
+    private async getDropPosition(nodes: TreeNode[], target: TreeNode): Promise<'before' | 'after' | 'inside' | undefined> {
+        if (this.isSection(target)) {
+            return 'inside';
+        }
+
+        const order = this.getTreeOrder();
+        const direction = (order.get(nodes[0].id) ?? order.size) < (order.get(target.id) ?? order.size) ? 'after' : 'before';
+        if (!isContainer(target)) {
+            return direction;
+        }
+        if (nodes.every(isCommandItem)) {
+            return 'inside';
+        }
+        if (isCommandWorkflow(target)) {
+            return direction;
+        }
+
+        const name = nodes.length === 1 ? `"${nodes[0].label}"` : `${nodes.length} items`;
+        const picked = await vscode.window.showQuickPick([
+            { label: `Into "${target.label}"`, position: 'inside' as const },
+            { label: `Before "${target.label}"`, position: 'before' as const },
+            { label: `After "${target.label}"`, position: 'after' as const }
+        ], { title: `Move ${name}` });
+        return picked?.position;
+    }
+
+    /**
+     * Add dropped text as a command after the item, or inside the group, it was dropped on
+     */
+    private async addDroppedCommand(text: string, target: TreeNode | undefined): Promise<void> {
+        const newCommand: CommandItem = {
+            id: this.storageService.generateId(),
+            type: 'command',
+            label: text.split('\n')[0].trim(),
+            command: text
+        };
+
+        if (target && !isContainer(target)) {
+            const parent = this.storageService.findParent(this.data, target.id);
+            const siblings = parent ? parent.children : this.data;
+            siblings.splice(siblings.findIndex(sibling => sibling.id === target.id) + 1, 0, newCommand);
+        } else {
+            const parentId = target?.id || this.defaultParentId();
+            if (parentId) {
+                this.data = this.addToGroup(this.data, parentId, newCommand);
+            } else {
+                this.data.push(newCommand);
+            }
+        }
+
+        await this.save();
         this.refresh();
     }
 
+    /**
+     * Get the position of every node in the tree, counting from the top
+     */
+    private getTreeOrder(): Map<string, number> {
+        const order = new Map<string, number>();
+        const walk = (nodes: TreeNode[]): void => {
+            for (const node of nodes) {
+                order.set(node.id, order.size);
+                if (isContainer(node)) {
+                    walk(node.children);
+                }
+            }
+        };
+        walk(this.data);
+        return order;
+    }
+
+    private async shiftNodes(ids: string[], offset: -1 | 1): Promise<void> {
+        const selected = new Set(ids.filter(id => !this.isSectionId(id)));
+        let moved = false;
+
+        const shift = (siblings: TreeNode[]): void => {
+            // Start from the end the nodes move towards, so a block doesn't overtake itself
+            const indexes = siblings.map((_, index) => index);
+            for (const index of offset < 0 ? indexes : indexes.reverse()) {
+                const other = index + offset;
+                if (selected.has(siblings[index].id) && other >= 0 && other < siblings.length && !selected.has(siblings[other].id)) {
+                    [siblings[other], siblings[index]] = [siblings[index], siblings[other]];
+                    moved = true;
+                }
+            }
+            siblings.filter(isContainer).forEach(container => shift(container.children));
+        };
+        shift(this.data);
+
+        if (moved) {
+            await this.save();
+            this.refresh();
+        }
+    }
+
+    private getTrashEntry(node: TreeNode): DeletedNode | undefined {
+        return this.trash.find(entry => entry.node === node);
+    }
+
+    private getTrashRetentionDays(): number {
+        return vscode.workspace.getConfiguration('commandNotes').get<number>('trashRetentionDays', 30);
+    }
+
+    /**
+     * Drop deleted nodes that are older than the retention period
+     */
+    private pruneTrash(entries: DeletedNode[]): DeletedNode[] {
+        const cutoff = Date.now() - this.getTrashRetentionDays() * 24 * 60 * 60 * 1000;
+        return entries.filter(entry => entry.deletedAt > cutoff);
+    }
+
+    private async saveTrash(): Promise<void> {
+        this.trash = this.pruneTrash(this.trash);
+        await this.storageService.saveTrash(this.trash);
+    }
+
+    /**
+     * Get the source a node belongs to
+     */
+    private getNodeSource(id: string): CommandSource | undefined {
+        if (!this.useSections) {
+            return this.sources[0];
+        }
+        const section = this.data.find(node => this.storageService.findNodeById([node], id));
+        return section && this.getSectionSource(section);
+    }
+
+    private disposeSources(): void {
+        this.sourceListeners.forEach(listener => listener.dispose());
+        this.sources.forEach(source => source.dispose());
+    }
+
     private addToGroup(nodes: TreeNode[], groupId: string, nodeToAdd: TreeNode): TreeNode[] {
         return nodes.map(node => {
-            if (node.id === groupId && isCommandGroup(node)) {
+            if (node.id === groupId && isContainer(node)) {
                 return {
                     ...node,
                     children: [...node.children, nodeToAdd]
                 };
             }
-            if (isCommandGroup(node)) {
+            if (isContainer(node)) {
                 return {
                     ...node,
                     children: this.addToGroup(node.children, groupId, nodeToAdd)
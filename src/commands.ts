@@ -1,45 +1,468 @@
+import * as path from 'path';
 import * as vscode from 'vscode';
 import { CommandTreeProvider } from './commandTreeProvider';
-import { TreeNode, isCommandItem, isCommandGroup, CommandItem } from './types';
+import { PlaceholderResolver } from './placeholderResolver';
+import { VariableResolver } from './variableResolver';
+import { SECRET_NAME_PATTERN, SecretResolver, parseSecretNames } from './secretResolver';
+import { DEFAULT_TERMINAL_NAME, TerminalManager, TerminalRun } from './terminalManager';
+import { BackgroundRunner } from './backgroundRunner';
+import { HistoryTreeProvider } from './historyTreeProvider';
+import { CommandDataError, parseCommandData, parseNodes } from './schema';
+import { MergePlan, countNodes, diffTrees } from './merge';
+import { BackupService } from './backupService';
+import { CommandTaskProvider } from './commandTaskProvider';
+import { toBashOneLiner, toCodeBlock, toMarkdown, toShellName, toShellScript, toTasks } from './exporters';
+import { InputStep, showInputStep } from './multiStepInput';
+import { NotesFileSystemProvider } from './notesFileSystem';
+import { findDangerPattern, findTypeToConfirmTags } from './safety';
+import {
+    ImportedCommand,
+    ShellKind,
+    getShellHistoryPath,
+    parseShellHistory,
+    rankByFrequency,
+    parsePackageScripts,
+    parseMakefileTargets,
+    parseTasks
+} from './importers';
+import { TreeNode, isCommandItem, isCommandGroup, isCommandWorkflow, isContainer, CommandItem, ExecutionSettings, TerminalMode, HistoryEntry, WorkflowMode } from './types';
+
+/**
+ * Parse environment variables written as KEY=value; KEY2=value
+ */
+function parseEnv(text: string): Record<string, string> {
+    const env: Record<string, string> = {};
+    for (const entry of text.split(';')) {
+        const separator = entry.indexOf('=');
+        if (separator > 0) {
+            env[entry.slice(0, separator).trim()] = entry.slice(separator + 1).trim();
+        }
+    }
+    return env;
+}
+
+function formatEnv(env: Record<string, string> | undefined): string {
+    return Object.entries(env || {}).map(([key, value]) => `${key}=${value}`).join('; ');
+}
+
+const EXPORT_FORMATS = [
+    { id: 'json', label: 'JSON', description: 'Can be imported again', extension: 'json', filter: 'JSON' },
+    { id: 'markdown', label: 'Markdown Cheat Sheet', description: 'Groups as headings', extension: 'md', filter: 'Markdown' },
+    { id: 'functions', label: 'Shell Script (Functions)', description: 'One function per command', extension: 'sh', filter: 'Shell Script' },
+    { id: 'aliases', label: 'Shell Script (Aliases)', description: 'One alias per command', extension: 'sh', filter: 'Shell Script' },
+    { id: 'tasks', label: 'VS Code Tasks', description: 'A tasks.json with one task per command', extension: 'json', filter: 'JSON' }
+] as const;
+
+const COPY_FORMATS = [
+    { id: 'text', label: 'Plain Text', description: 'The commands, one per line' },
+    { id: 'markdown', label: 'Markdown Code Block', description: 'A fenced sh code block' },
+    { id: 'json', label: 'JSON', description: 'The whole node, which can be pasted into a group' },
+    { id: 'bash', label: 'bash -c One-Liner', description: 'Runs the commands in a new bash' }
+] as const;
+
+// Codicons offered by "Set Icon...", any other codicon id can be typed in
+const ICONS = [
+    'terminal', 'folder', 'run-all', 'rocket', 'play', 'debug-alt', 'beaker', 'tools', 'gear', 'package',
+    'cloud', 'cloud-upload', 'server', 'database', 'globe', 'git-branch', 'git-merge', 'github', 'bug', 'flame',
+    'warning', 'shield', 'lock', 'key', 'trash', 'sync', 'history', 'clock', 'star', 'heart',
+    'bookmark', 'zap', 'code', 'file-code', 'symbol-method', 'list-tree', 'checklist', 'archive', 'home', 'note'
+];
+
+// Theme colors offered by "Set Color...", any other theme color id can be typed in
+const COLORS = [
+    { id: 'charts.red', label: 'Red' },
+    { id: 'charts.orange', label: 'Orange' },
+    { id: 'charts.yellow', label: 'Yellow' },
+    { id: 'charts.green', label: 'Green' },
+    { id: 'charts.blue', label: 'Blue' },
+    { id: 'charts.purple', label: 'Purple' },
+    { id: 'charts.foreground', label: 'Foreground' },
+    { id: 'disabledForeground', label: 'Gray' }
+];
+
+/**
+ * The editable fields of a command
+ */
+interface CommandFields {
+    label: string;
+    command: string;
+    description?: string;
+    notes?: string;
+}
+
+// Multi-line fields are edited in a single-line input box with \n for line breaks
+function escapeNewlines(text: string | undefined): string {
+    return (text || '').replace(/\r?\n/g, '\\n');
+}
+
+function unescapeNewlines(text: string): string | undefined {
+    const value = text.replace(/\\n/g, '\n');
+    return value.trim() ? value : undefined;
+}
+
+/**
+ * Score how often and how recently a command was run, recent runs weigh more
+ */
+function frecency(entries: HistoryEntry[], now: number): number {
+    const hour = 60 * 60 * 1000;
+    return entries.reduce((score, entry) => {
+        const age = now - entry.timestamp;
+        if (age < hour) {
+            return score + 4;
+        }
+        if (age < 24 * hour) {
+            return score + 2;
+        }
+        if (age < 7 * 24 * hour) {
+            return score + 1;
+        }
+        return score + 0.5;
+    }, 0);
+}
+
+/**
+ * Count every node inside a group or workflow, at any depth
+ */
+function countDescendants(node: TreeNode): number {
+    return isContainer(node) ? node.children.reduce((count, child) => count + 1 + countDescendants(child), 0) : 0;
+}
 
 export class CommandHandler {
-    private terminal: vscode.Terminal | undefined;
+    constructor(
+        private treeProvider: CommandTreeProvider,
+        private placeholderResolver: PlaceholderResolver,
+        private variableResolver: VariableResolver,
+        private secretResolver: SecretResolver,
+        private terminalManager: TerminalManager,
+        private backgroundRunner: BackgroundRunner,
+        private historyProvider: HistoryTreeProvider,
+        private backupService: BackupService,
+        private taskProvider: CommandTaskProvider
+    ) { }
+
+    /**
+     * Execute a command, or every selected command one after another, in the integrated terminal
+     */
+    async executeCommand(node: TreeNode, selected?: TreeNode[]): Promise<void> {
+        await this.runCommands(this.getSelection(node, selected), false);
+    }
 
-    constructor(private treeProvider: CommandTreeProvider) { }
+    /**
+     * Show the resolved command for editing before executing it
+     */
+    async previewCommand(node: TreeNode, selected?: TreeNode[]): Promise<void> {
+        await this.runCommands(this.getSelection(node, selected), true);
+    }
 
     /**
-     * Execute a command in the integrated terminal
+     * Run every step of a workflow, or every command in a group one after another.
+     * With several groups selected, they run one after another.
      */
-    async executeCommand(node: TreeNode): Promise<void> {
-        if (!isCommandItem(node)) {
-            vscode.window.showWarningMessage('Only commands can be executed');
+    async runAll(node: TreeNode, selected?: TreeNode[]): Promise<void> {
+        for (const group of this.getSelection(node, selected)) {
+            await this.runGroup(group);
+        }
+    }
+
+    /**
+     * Run commands as VS Code tasks, so they get a task terminal and report their exit code
+     */
+    async runAsTask(node: TreeNode, selected?: TreeNode[]): Promise<void> {
+        const commands = this.getSelection(node, selected).filter(isCommandItem);
+        if (commands.length === 0) {
+            vscode.window.showWarningMessage('Only commands can be run as tasks');
+            return;
+        }
+
+        for (const command of commands) {
+            if (!await this.runTask(command)) {
+                return;
+            }
+        }
+    }
+
+    /**
+     * Run a command from history again, in the same terminal
+     */
+    async rerunHistoryEntry(entry: HistoryEntry): Promise<void> {
+        const node = entry.commandId ? this.treeProvider.findNodeById(entry.commandId) : undefined;
+        if (!await this.confirmRun(entry.label, entry.command, node && isCommandItem(node) ? node : undefined)) {
+            return;
+        }
+
+        const runText = await this.fillSecrets(entry.command);
+        if (runText === undefined) {
+            return;
+        }
+
+        // History doesn't keep the environment, it can hold secrets, so take it and the shell from the command again
+        const settings = node && isCommandItem(node) ? await this.resolveExecutionSettings(node) : {};
+        if (!settings) {
+            return;
+        }
+
+        await this.runInTerminal(entry.label, entry.command, {
+            terminalName: entry.terminalName,
+            cwd: entry.cwd,
+            env: settings.env,
+            shellPath: settings.shellPath,
+            terminalMode: entry.background ? 'background' : undefined
+        }, entry.commandId, runText);
+        if (!entry.background) {
+            vscode.window.showInformationMessage(`Executed: ${entry.label}`);
+        }
+    }
+
+    /**
+     * Copy a command from history to clipboard
+     */
+    async copyHistoryEntry(entry: HistoryEntry): Promise<void> {
+        await vscode.env.clipboard.writeText(entry.command);
+        vscode.window.showInformationMessage(`Copied to clipboard: ${entry.command}`);
+    }
+
+    /**
+     * Save a command from history as a new note at root level
+     */
+    async saveHistoryEntry(entry: HistoryEntry): Promise<void> {
+        await this.treeProvider.addCommand(entry.command, entry.command, undefined);
+        vscode.window.showInformationMessage(`Command "${entry.command}" added successfully`);
+    }
+
+    /**
+     * Run a code block from a Markdown file in the terminal, as written
+     */
+    async runCodeBlock(code: string): Promise<void> {
+        const label = code.split('\n')[0];
+        if (!await this.confirmRun(label, code)) {
+            return;
+        }
+
+        await this.runInTerminal(label, code, {});
+        vscode.window.showInformationMessage(`Executed: ${label}`);
+    }
+
+    /**
+     * Save a code block from a Markdown file as a new note
+     */
+    async saveCodeBlock(code: string): Promise<void> {
+        await this.saveAsNote(code);
+    }
+
+    /**
+     * Save the text selected in the editor, or the line of the cursor, as a new note
+     */
+    async addEditorSelection(): Promise<void> {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor) {
+            return;
+        }
+
+        const text = editor.selection.isEmpty
+            ? editor.document.lineAt(editor.selection.active.line).text
+            : editor.document.getText(editor.selection);
+        await this.saveAsNote(text);
+    }
+
+    /**
+     * Save the text selected in the active terminal as a new note
+     */
+    async addTerminalSelection(): Promise<void> {
+        // Terminals only share their selection through the clipboard, so put back what was there
+        const clipboard = await vscode.env.clipboard.readText();
+        await vscode.commands.executeCommand('workbench.action.terminal.copySelection');
+        const text = await vscode.env.clipboard.readText();
+        await vscode.env.clipboard.writeText(clipboard);
+
+        await this.saveAsNote(text);
+    }
+
+    /**
+     * Remove a single entry from history
+     */
+    async deleteHistoryEntry(entry: HistoryEntry): Promise<void> {
+        await this.historyProvider.deleteEntry(entry.id);
+    }
+
+    /**
+     * Remove all entries from history
+     */
+    async clearHistory(): Promise<void> {
+        await this.historyProvider.clear();
+    }
+
+    /**
+     * Pick any saved command from a searchable list and run, copy or edit it
+     */
+    async quickRun(): Promise<void> {
+        const now = Date.now();
+        const history = this.historyProvider.getEntries();
+        const runButton = { iconPath: new vscode.ThemeIcon('play'), tooltip: 'Execute Command' };
+        const copyButton = { iconPath: new vscode.ThemeIcon('copy'), tooltip: 'Copy Command' };
+        const editButton = { iconPath: new vscode.ThemeIcon('edit'), tooltip: 'Edit Command' };
+
+        // Most used commands first, the rest in tree order
+        const items = this.treeProvider.getAllCommands()
+            .map((node, index) => ({
+                node,
+                index,
+                score: frecency(history.filter(entry => entry.commandId === node.id), now)
+            }))
+            .sort((a, b) => b.score - a.score || a.index - b.index)
+            .map(({ node }) => ({
+                label: node.label,
+                description: node.label !== node.command ? node.command : undefined,
+                detail: this.treeProvider.getGroupPath(node).join(' › ') || undefined,
+                buttons: [runButton, copyButton, editButton],
+                node
+            }));
+
+        if (items.length === 0) {
+            vscode.window.showInformationMessage('No commands saved yet');
             return;
         }
 
-        // Get or create terminal
-        if (!this.terminal || this.terminal.exitStatus !== undefined) {
-            // Terminal doesn't exist or was closed, create a new one
-            this.terminal = vscode.window.createTerminal('Command Notes');
+        const quickPick = vscode.window.createQuickPick<typeof items[number]>();
+        quickPick.title = 'Run Command Note';
+        quickPick.placeholder = 'Search saved commands';
+        quickPick.items = items;
+        quickPick.matchOnDescription = true;
+        quickPick.matchOnDetail = true;
+
+        quickPick.onDidAccept(() => {
+            const picked = quickPick.selectedItems[0];
+            quickPick.hide();
+            if (picked) {
+                this.executeCommand(picked.node);
+            }
+        });
+        quickPick.onDidTriggerItemButton(({ item, button }) => {
+            quickPick.hide();
+            if (button === runButton) {
+                this.executeCommand(item.node);
+            } else if (button === copyButton) {
+                this.copyCommand(item.node);
+            } else {
+                this.editCommand(item.node);
+            }
+        });
+        quickPick.onDidHide(() => quickPick.dispose());
+        quickPick.show();
+    }
+
+    /**
+     * Narrow the tree to commands matching a query
+     */
+    async filter(): Promise<void> {
+        const query = await vscode.window.showInputBox({
+            prompt: 'Filter commands by label, command text or description, or by tag with #tag',
+            placeHolder: 'e.g., docker logs, or #production',
+            value: this.treeProvider.getFilter()
+        });
+
+        if (query === undefined) {
+            return;
         }
 
-        // Show and execute command
-        this.terminal.show();
-        this.terminal.sendText(node.command);
+        this.treeProvider.setFilter(query);
+    }
 
-        vscode.window.showInformationMessage(`Executed: ${node.label}`);
+    /**
+     * Show the full tree again
+     */
+    clearFilter(): void {
+        this.treeProvider.setFilter(undefined);
     }
 
     /**
      * Copy command to clipboard
      */
-    async copyCommand(node: TreeNode): Promise<void> {
-        if (!isCommandItem(node)) {
+    async copyCommand(node: TreeNode, selected?: TreeNode[]): Promise<void> {
+        const commands = this.getSelection(node, selected).filter(isCommandItem);
+        if (commands.length === 0) {
             vscode.window.showWarningMessage('Only commands can be copied');
             return;
         }
 
-        await vscode.env.clipboard.writeText(node.command);
-        vscode.window.showInformationMessage(`Copied to clipboard: ${node.command}`);
+        // Several commands are copied one per line
+        const lines: string[] = [];
+        for (const command of commands) {
+            const commandText = await this.resolveCommand(command);
+            if (commandText === undefined) {
+                return;
+            }
+            lines.push(commandText);
+        }
+        let text = lines.join('\n');
+
+        // Secrets stay placeholders unless the user chooses to reveal them
+        const secrets = parseSecretNames(text);
+        if (secrets.length > 0) {
+            const choice = await vscode.window.showWarningMessage(
+                `Copy with the value of ${secrets.map(name => `"${name}"`).join(', ')}?`,
+                {
+                    modal: true,
+                    detail: 'The clipboard can be read by other applications. Copy the placeholder instead to keep the secret hidden.'
+                },
+                'Copy Placeholder',
+                'Reveal and Copy'
+            );
+            if (!choice) {
+                return;
+            }
+            if (choice === 'Reveal and Copy') {
+                const revealed = await this.secretResolver.resolve(text);
+                if (revealed === undefined) {
+                    return;
+                }
+                text = revealed;
+            }
+        }
+
+        // The message shows the placeholders, never the secrets
+        await vscode.env.clipboard.writeText(text);
+        vscode.window.showInformationMessage(lines.length === 1
+            ? `Copied to clipboard: ${lines[0]}`
+            : `Copied ${lines.length} commands to clipboard`);
+    }
+
+    /**
+     * Copy commands or groups as plain text, a Markdown code block, JSON or a bash -c one-liner.
+     * Commands are copied as written, without filling in placeholders.
+     */
+    async copyAs(node: TreeNode, selected?: TreeNode[]): Promise<void> {
+        const nodes = this.getSelection(node, selected)
+            .map(other => this.treeProvider.findNodeById(other.id) || other)
+            .filter(other => !this.treeProvider.isSection(other));
+        if (nodes.length === 0) {
+            return;
+        }
+
+        const format = await vscode.window.showQuickPick(COPY_FORMATS, {
+            title: nodes.length === 1 ? `Copy "${node.label}" as` : `Copy ${nodes.length} items as`
+        });
+        if (!format) {
+            return;
+        }
+
+        const commands = nodes.flatMap(other => this.treeProvider.getDescendantCommands(other)).map(command => command.command);
+        let text: string;
+        switch (format.id) {
+            case 'markdown':
+                text = toCodeBlock(commands);
+                break;
+            case 'json':
+                text = JSON.stringify(nodes.length === 1 ? nodes[0] : nodes, null, 2);
+                break;
+            case 'bash':
+                text = toBashOneLiner(commands);
+                break;
+            default:
+                text = commands.join('\n');
+        }
+
+        await vscode.env.clipboard.writeText(text);
+        vscode.window.showInformationMessage(`Copied as ${format.label}`);
     }
 
     /**
@@ -51,26 +474,24 @@ export class CommandHandler {
             parentNode = (this.treeProvider.getParent(parentNode) as TreeNode | null) || undefined;
         }
 
-        // If parent is provided, it must be a group
-        if (parentNode && !isCommandGroup(parentNode)) {
-            vscode.window.showWarningMessage('Commands can only be added to groups or root level');
+        // If parent is provided, it must be a group or workflow
+        if (parentNode && !isContainer(parentNode)) {
+            vscode.window.showWarningMessage('Commands can only be added to groups, workflows or root level');
             return;
         }
 
-        const command = await vscode.window.showInputBox({
-            prompt: 'Enter command to execute',
-            placeHolder: 'e.g., docker-compose up -d'
-        });
-
-        if (!command) {
+        const form = await this.showCommandForm('Add Command', { label: '', command: '' });
+        if (!form) {
             return;
         }
 
-        // Use the command itself as the label
-        const label = command;
+        const { fields, editNotes } = form;
+        const id = await this.treeProvider.addCommand(fields.label, fields.command, fields.description, parentNode?.id, fields.notes);
+        vscode.window.showInformationMessage(`Command "${fields.label}" added successfully`);
 
-        await this.treeProvider.addCommand(label, command, undefined, parentNode?.id);
-        vscode.window.showInformationMessage(`Command "${label}" added successfully`);
+        if (editNotes) {
+            await this.openNotes(id, fields.label);
+        }
     }
 
     /**
@@ -101,6 +522,64 @@ export class CommandHandler {
         vscode.window.showInformationMessage(`Group "${label}" added successfully`);
     }
 
+    /**
+     * Add a new workflow
+     */
+    async addWorkflow(parentNode?: TreeNode): Promise<void> {
+        // If parent is provided and it is a command item, use its parent instead
+        if (parentNode && isCommandItem(parentNode)) {
+            parentNode = (this.treeProvider.getParent(parentNode) as TreeNode | null) || undefined;
+        }
+
+        // If parent is provided, it must be a group
+        if (parentNode && !isCommandGroup(parentNode)) {
+            vscode.window.showWarningMessage('Workflows can only be added to groups or root level');
+            return;
+        }
+
+        const label = await vscode.window.showInputBox({
+            prompt: 'Enter workflow name',
+            placeHolder: 'e.g., Reset Database'
+        });
+
+        if (!label) {
+            return;
+        }
+
+        await this.treeProvider.addWorkflow(label, parentNode?.id);
+        vscode.window.showInformationMessage(`Workflow "${label}" added successfully`);
+    }
+
+    /**
+     * Change how the steps of a workflow are run
+     */
+    async configureWorkflow(node: TreeNode, selected?: TreeNode[]): Promise<void> {
+        if (!isCommandWorkflow(node)) {
+            vscode.window.showWarningMessage('Only workflows can be configured');
+            return;
+        }
+
+        const picked = await vscode.window.showQuickPick([
+            { label: 'Sequential', mode: 'sequential' as WorkflowMode, stopOnFailure: true, description: 'Stop at the first failing step' },
+            { label: 'Sequential', mode: 'sequential' as WorkflowMode, stopOnFailure: false, description: 'Run every step even if one fails' },
+            { label: 'Parallel', mode: 'parallel' as WorkflowMode, stopOnFailure: false, description: 'Run all steps at once, each in its own terminal' }
+        ].map(item => ({ ...item, picked: item.mode === node.mode && item.stopOnFailure === node.stopOnFailure })), {
+            title: `Workflow Mode: ${node.label}`
+        });
+
+        if (!picked) {
+            return;
+        }
+
+        // The mode is set on every selected workflow
+        const workflows = this.getSelection(node, selected).filter(isCommandWorkflow);
+        await this.treeProvider.batch(async () => {
+            for (const workflow of workflows) {
+                await this.treeProvider.updateNode(workflow.id, { mode: picked.mode, stopOnFailure: picked.stopOnFailure });
+            }
+        });
+    }
+
     /**
      * Edit a command
      */
@@ -110,33 +589,43 @@ export class CommandHandler {
             return;
         }
 
-        const command = await vscode.window.showInputBox({
-            prompt: 'Enter new command',
-            value: node.command
-        });
-
-        if (!command) {
+        const form = await this.showCommandForm('Edit Command', node);
+        if (!form) {
             return;
         }
 
-        // Use the command itself as the label
-        const label = command;
+        const { fields, editNotes } = form;
+        await this.treeProvider.updateNode(node.id, { ...fields });
+        vscode.window.showInformationMessage(`Command "${fields.label}" updated successfully`);
+
+        if (editNotes) {
+            await this.openNotes(node.id, fields.label);
+        }
+    }
+
+    /**
+     * Open the Markdown notes of a command in an editor, saving writes them back
+     */
+    async editNotes(node: TreeNode): Promise<void> {
+        if (!isCommandItem(node)) {
+            vscode.window.showWarningMessage('Only commands have notes');
+            return;
+        }
 
-        await this.treeProvider.updateNode(node.id, { label, command });
-        vscode.window.showInformationMessage(`Command "${label}" updated successfully`);
+        await this.openNotes(node.id, node.label);
     }
 
     /**
-     * Rename a group
+     * Rename a group or workflow
      */
     async renameGroup(node: TreeNode): Promise<void> {
-        if (!isCommandGroup(node)) {
-            vscode.window.showWarningMessage('Only groups can be renamed');
+        if (!isContainer(node)) {
+            vscode.window.showWarningMessage('Only groups and workflows can be renamed');
             return;
         }
 
         const label = await vscode.window.showInputBox({
-            prompt: 'Enter new group name',
+            prompt: isCommandWorkflow(node) ? 'Enter new workflow name' : 'Enter new group name',
             value: node.label
         });
 
@@ -145,93 +634,1481 @@ export class CommandHandler {
         }
 
         await this.treeProvider.updateNode(node.id, { label });
-        vscode.window.showInformationMessage(`Group renamed to "${label}"`);
+        vscode.window.showInformationMessage(`${isCommandWorkflow(node) ? 'Workflow' : 'Group'} renamed to "${label}"`);
     }
 
     /**
-     * Delete a node (command or group)
+     * Pick the tags of a node from the tags already in use, or add new ones.
+     * With several nodes selected, tags only some of them have are left alone unless picked.
      */
-    async deleteNode(node: TreeNode): Promise<void> {
-        await this.treeProvider.deleteNode(node.id);
-        vscode.window.showInformationMessage(`"${node.label}" deleted successfully`);
-    }
+    async editTags(node: TreeNode, selected?: TreeNode[]): Promise<void> {
+        const nodes = this.getSelection(node, selected).filter(other => !this.treeProvider.isSection(other));
+        if (nodes.length === 0) {
+            return;
+        }
 
-    /**
-     * Move node up
-     */
-    async moveUp(node: TreeNode): Promise<void> {
-        await this.treeProvider.moveUp(node.id);
-    }
+        const onAll = (tag: string) => nodes.every(other => other.tags?.includes(tag));
+        const onSome = (tag: string) => nodes.filter(other => other.tags?.includes(tag)).length;
+        const tags = [...new Set([...this.treeProvider.getAllTags(), ...nodes.flatMap(other => other.tags || [])])].sort((a, b) => a.localeCompare(b));
+        const newTag = { label: '$(add) New Tag...', description: 'Enter one or more tags', alwaysShow: true };
 
-    /**
-     * Move node down
-     */
-    async moveDown(node: TreeNode): Promise<void> {
-        await this.treeProvider.moveDown(node.id);
+        const picked = await vscode.window.showQuickPick([
+            ...tags.map(tag => ({
+                label: tag,
+                description: !onAll(tag) && onSome(tag) > 0 ? `on ${onSome(tag)} of ${nodes.length} selected` : undefined,
+                picked: onAll(tag)
+            })),
+            newTag
+        ], {
+            title: nodes.length === 1 ? `Tags: ${node.label}` : `Tags: ${nodes.length} items`,
+            placeHolder: nodes.length === 1 ? 'Select the tags of this node' : 'Select the tags of the selected items',
+            canPickMany: true
+        });
+
+        if (!picked) {
+            return;
+        }
+
+        const picks = picked.filter(item => item !== newTag).map(item => item.label);
+        if (picked.includes(newTag)) {
+            const added = await vscode.window.showInputBox({
+                prompt: 'Enter new tags, separated by commas',
+                placeHolder: 'e.g. production, docker'
+            });
+            if (added === undefined) {
+                return;
+            }
+            picks.push(...added.split(',').map(tag => tag.trim().replace(/^#/, '')).filter(tag => tag.length > 0));
+        }
+
+        // Tags every node had and that were unpicked are removed, picked ones are added
+        const removed = tags.filter(tag => onAll(tag) && !picks.includes(tag));
+        await this.treeProvider.batch(async () => {
+            for (const other of nodes) {
+                const updated = [...new Set([...(other.tags || []).filter(tag => !removed.includes(tag)), ...picks])];
+                await this.treeProvider.updateNode(other.id, { tags: updated.length > 0 ? updated : undefined });
+            }
+        });
     }
 
     /**
-     * Export all commands to a JSON file
+     * Pick the icon of a node from common codicons, or type any codicon id
      */
-    async exportData(): Promise<void> {
-        const uri = await vscode.window.showSaveDialog({
-            filters: {
-                'JSON': ['json']
-            },
-            defaultUri: vscode.Uri.file('command-notes-export.json')
+    async setIcon(node: TreeNode, selected?: TreeNode[]): Promise<void> {
+        const nodes = this.getSelection(node, selected).filter(other => !this.treeProvider.isSection(other));
+        if (nodes.length === 0) {
+            return;
+        }
+
+        const items: (vscode.QuickPickItem & { icon?: string })[] = [
+            { label: '$(discard) Default', description: 'Use the icon for its type', icon: undefined },
+            { label: 'Custom...', description: 'Enter any codicon id', icon: '' },
+            { label: '', kind: vscode.QuickPickItemKind.Separator },
+            ...ICONS.map(icon => ({ label: `$(${icon}) ${icon}`, icon, picked: icon === node.icon }))
+        ];
+
+        const picked = await vscode.window.showQuickPick(items, {
+            title: `Icon: ${node.label}`,
+            placeHolder: node.icon ? `Current icon: ${node.icon}` : 'Select an icon',
+            matchOnDescription: true
         });
 
-        if (!uri) {
+        if (!picked) {
             return;
         }
 
-        try {
-            const data = await this.treeProvider.getData();
-            const jsonContent = JSON.stringify({ commands: data }, null, 2);
-            await vscode.workspace.fs.writeFile(uri, Buffer.from(jsonContent, 'utf8'));
-            vscode.window.showInformationMessage(`Commands exported to ${uri.fsPath}`);
-        } catch (error) {
-            vscode.window.showErrorMessage(`Failed to export: ${error}`);
+        let icon = picked.icon;
+        if (icon === '') {
+            icon = await vscode.window.showInputBox({
+                prompt: 'Enter a codicon id',
+                placeHolder: 'e.g. rocket, see https://code.visualstudio.com/api/references/icons-in-labels',
+                value: node.icon,
+                validateInput: value => /^[a-z0-9-]*(~spin)?$/.test(value.trim()) ? undefined : 'Codicon ids only contain lowercase letters, digits and dashes'
+            });
+            if (icon === undefined) {
+                return;
+            }
         }
+
+        await this.treeProvider.batch(async () => {
+            for (const other of nodes) {
+                await this.treeProvider.updateNode(other.id, { icon: icon?.trim() || undefined });
+            }
+        });
     }
 
     /**
-     * Import commands from a JSON file
+     * Pick the icon color of a node from a few theme colors, or type any theme color id
      */
-    async importData(): Promise<void> {
-        const uris = await vscode.window.showOpenDialog({
-            filters: {
-                'JSON': ['json']
-            },
-            canSelectMany: false
+    async setColor(node: TreeNode, selected?: TreeNode[]): Promise<void> {
+        const nodes = this.getSelection(node, selected).filter(other => !this.treeProvider.isSection(other));
+        if (nodes.length === 0) {
+            return;
+        }
+
+        const items: (vscode.QuickPickItem & { color?: string })[] = [
+            { label: '$(discard) Default', description: 'Use the color of the theme', color: undefined },
+            { label: 'Custom...', description: 'Enter any theme color id', color: '' },
+            { label: '', kind: vscode.QuickPickItemKind.Separator },
+            ...COLORS.map(color => ({ label: color.label, description: color.id, color: color.id }))
+        ];
+
+        const picked = await vscode.window.showQuickPick(items, {
+            title: `Icon Color: ${node.label}`,
+            placeHolder: node.color ? `Current color: ${node.color}` : 'Select a color'
         });
 
-        if (!uris || uris.length === 0) {
+        if (!picked) {
             return;
         }
 
-        try {
-            const fileContent = await vscode.workspace.fs.readFile(uris[0]);
-            const jsonContent = JSON.parse(fileContent.toString());
-
-            if (!jsonContent.commands || !Array.isArray(jsonContent.commands)) {
-                vscode.window.showErrorMessage('Invalid file format. Expected { "commands": [...] }');
+        let color = picked.color;
+        if (color === '') {
+            color = await vscode.window.showInputBox({
+                prompt: 'Enter a theme color id',
+                placeHolder: 'e.g. terminal.ansiMagenta, see https://code.visualstudio.com/api/references/theme-color',
+                value: node.color
+            });
+            if (color === undefined) {
                 return;
             }
-
-            await this.treeProvider.importData(jsonContent.commands);
-            vscode.window.showInformationMessage('Commands imported successfully');
-        } catch (error) {
-            vscode.window.showErrorMessage(`Failed to import: ${error}`);
         }
+
+        await this.treeProvider.batch(async () => {
+            for (const other of nodes) {
+                await this.treeProvider.updateNode(other.id, { color: color?.trim() || undefined });
+            }
+        });
     }
 
     /**
-     * Dispose terminal when extension deactivates
+     * Turn asking for confirmation before running a command on or off
      */
-    dispose(): void {
-        if (this.terminal) {
-            this.terminal.dispose();
+    async toggleConfirm(node: TreeNode, selected?: TreeNode[]): Promise<void> {
+        if (!isCommandItem(node)) {
+            vscode.window.showWarningMessage('Only commands can ask for confirmation');
+            return;
         }
+
+        // Every selected command follows the one that was clicked
+        const current = this.treeProvider.findNodeById(node.id);
+        const confirm = !(current && isCommandItem(current) && current.confirm);
+        const commands = this.getSelection(node, selected).filter(isCommandItem);
+        await this.treeProvider.batch(async () => {
+            for (const command of commands) {
+                await this.treeProvider.updateNode(command.id, { confirm: confirm || undefined });
+            }
+        });
+
+        const name = commands.length === 1 ? `"${node.label}"` : `${commands.length} commands`;
+        vscode.window.showInformationMessage(confirm
+            ? `${name} will ask for confirmation before running`
+            : `${name} will run without asking`);
+    }
+
+    /**
+     * Store a named secret, to be used in commands as ${secret:NAME}
+     */
+    async setSecret(name?: string): Promise<void> {
+        const names = await this.secretResolver.getNames();
+        if (name === undefined) {
+            name = await vscode.window.showInputBox({
+                title: 'Set Secret',
+                prompt: 'Name of the secret, used in commands as ${secret:NAME}',
+                placeHolder: 'e.g., github-token',
+                validateInput: value => SECRET_NAME_PATTERN.test(value.trim())
+                    ? undefined
+                    : 'Use letters, digits, ".", "-" and "_" only'
+            });
+            if (name === undefined) {
+                return;
+            }
+            name = name.trim();
+        }
+
+        if (await this.secretResolver.promptForValue(name, names.includes(name)) === undefined) {
+            return;
+        }
+
+        const placeholder = `\${secret:${name}}`;
+        const choice = await vscode.window.showInformationMessage(`Secret "${name}" saved. Use it in commands as ${placeholder}`, 'Copy Placeholder');
+        if (choice === 'Copy Placeholder') {
+            await vscode.env.clipboard.writeText(placeholder);
+        }
+    }
+
+    /**
+     * List the stored secrets, to copy their placeholder, change or delete them.
+     * Values are never shown.
+     */
+    async listSecrets(): Promise<void> {
+        const names = await this.secretResolver.getNames();
+        if (names.length === 0) {
+            const choice = await vscode.window.showInformationMessage('No secrets saved yet', 'Set Secret...');
+            if (choice) {
+                await this.setSecret();
+            }
+            return;
+        }
+
+        const copyButton = { iconPath: new vscode.ThemeIcon('copy'), tooltip: 'Copy Placeholder' };
+        const editButton = { iconPath: new vscode.ThemeIcon('edit'), tooltip: 'Change Value' };
+        const deleteButton = { iconPath: new vscode.ThemeIcon('trash'), tooltip: 'Delete Secret' };
+
+        const items = names.map(name => {
+            const users = this.getSecretUsers(name);
+            return {
+                label: name,
+                description: `\${secret:${name}}`,
+                detail: users.length > 0 ? `Used by ${users.map(command => command.label).join(', ')}` : 'Not used by any command',
+                buttons: [copyButton, editButton, deleteButton],
+                name
+            };
+        });
+
+        const quickPick = vscode.window.createQuickPick<typeof items[number]>();
+        quickPick.title = 'Secrets';
+        quickPick.placeholder = 'Select a secret to copy its placeholder';
+        quickPick.items = items;
+        quickPick.matchOnDetail = true;
+
+        const copyPlaceholder = async (name: string) => {
+            await vscode.env.clipboard.writeText(`\${secret:${name}}`);
+            vscode.window.showInformationMessage(`Copied to clipboard: \${secret:${name}}`);
+        };
+
+        quickPick.onDidAccept(() => {
+            const picked = quickPick.selectedItems[0];
+            quickPick.hide();
+            if (picked) {
+                copyPlaceholder(picked.name);
+            }
+        });
+        quickPick.onDidTriggerItemButton(({ item, button }) => {
+            quickPick.hide();
+            if (button === copyButton) {
+                copyPlaceholder(item.name);
+            } else if (button === editButton) {
+                this.setSecret(item.name);
+            } else {
+                this.deleteSecret(item.name);
+            }
+        });
+        quickPick.onDidHide(() => quickPick.dispose());
+        quickPick.show();
+    }
+
+    /**
+     * Delete a stored secret, warning when commands still use it
+     */
+    async deleteSecret(name?: string): Promise<void> {
+        if (name === undefined) {
+            const names = await this.secretResolver.getNames();
+            if (names.length === 0) {
+                vscode.window.showInformationMessage('No secrets saved yet');
+                return;
+            }
+            name = await vscode.window.showQuickPick(names, { title: 'Delete Secret' });
+            if (name === undefined) {
+                return;
+            }
+        }
+
+        const users = this.getSecretUsers(name);
+        const confirmed = await vscode.window.showWarningMessage(
+            `Delete secret "${name}"?`,
+            {
+                modal: true,
+                detail: users.length > 0
+                    ? `It is used by ${users.map(command => `"${command.label}"`).join(', ')}, which will ask for a new value when run.`
+                    : undefined
+            },
+            'Delete'
+        );
+        if (confirmed !== 'Delete') {
+            return;
+        }
+
+        await this.secretResolver.delete(name);
+        vscode.window.showInformationMessage(`Secret "${name}" deleted`);
+    }
+
+    /**
+     * Pin commands to the status bar and Favorites, or unpin them.
+     * A single command being pinned can get a shorter text for the status bar.
+     */
+    async togglePinned(node: TreeNode, selected?: TreeNode[]): Promise<void> {
+        if (!isCommandItem(node)) {
+            vscode.window.showWarningMessage('Only commands can be pinned');
+            return;
+        }
+
+        // Every selected command follows the one that was clicked
+        const current = this.treeProvider.findNodeById(node.id);
+        const pinned = !(current && isCommandItem(current) && current.pinned);
+        const commands = this.getSelection(node, selected).filter(isCommandItem);
+
+        let statusBarText: string | undefined;
+        if (pinned && commands.length === 1) {
+            const text = await vscode.window.showInputBox({
+                title: `Pin "${node.label}"`,
+                prompt: 'Text shown in the status bar. Change the icon with "Set Icon..."',
+                value: (current && isCommandItem(current) && current.statusBarText) || node.label
+            });
+            if (text === undefined) {
+                return;
+            }
+            statusBarText = text.trim() && text.trim() !== node.label ? text.trim() : undefined;
+        }
+
+        await this.treeProvider.batch(async () => {
+            for (const command of commands) {
+                await this.treeProvider.updateNode(command.id, pinned
+                    ? { pinned: true, ...(commands.length === 1 ? { statusBarText } : {}) }
+                    : { pinned: undefined });
+            }
+        });
+
+        const name = commands.length === 1 ? `"${node.label}"` : `${commands.length} commands`;
+        vscode.window.showInformationMessage(pinned
+            ? `${name} pinned to the status bar`
+            : `${name} unpinned`);
+    }
+
+    /**
+     * Run the pinned command in a keybinding slot, counting from 1 in tree order
+     */
+    async runPinned(slot: number): Promise<void> {
+        const command = this.treeProvider.getPinnedCommands()[slot - 1];
+        if (!command) {
+            vscode.window.showInformationMessage(`No command is pinned in slot ${slot}. Right-click a command → "Toggle Pinned" to pin it.`);
+            return;
+        }
+        await this.executeCommand(command);
+    }
+
+    /**
+     * Configure the terminal a command, or every command in a group, runs in.
+     * A setting changed here is set on every selected node, which keep their other settings.
+     */
+    async configureTerminal(node: TreeNode, selected?: TreeNode[]): Promise<void> {
+        const nodes = this.getSelection(node, selected).filter(other => !this.treeProvider.isSection(other));
+        if (nodes.length === 0) {
+            vscode.window.showWarningMessage('Terminal settings can only be set on commands and groups');
+            return;
+        }
+
+        const current = nodes.find(other => other.id === node.id) || nodes[0];
+        const settings: ExecutionSettings = { ...(this.treeProvider.findNodeById(current.id) || current).execution };
+
+        for (; ;) {
+            const picked = await vscode.window.showQuickPick([
+                { label: 'Terminal Name', key: 'terminalName', description: settings.terminalName || DEFAULT_TERMINAL_NAME },
+                { label: 'Working Directory', key: 'cwd', description: settings.cwd || 'Default' },
+                { label: 'Environment Variables', key: 'env', description: formatEnv(settings.env) || 'None' },
+                { label: 'Shell Path', key: 'shellPath', description: settings.shellPath || 'Default' },
+                { label: 'Terminal Mode', key: 'terminalMode', description: settings.terminalMode || 'shared' }
+            ] as const, {
+                title: nodes.length === 1 ? `Terminal Settings: ${current.label}` : `Terminal Settings: ${nodes.length} items`,
+                placeHolder: nodes.length > 1 ? 'Select a setting to change for all selected items'
+                    : isContainer(current) ? `Select a setting to change for all commands in this ${isCommandWorkflow(current) ? 'workflow' : 'group'}`
+                        : 'Select a setting to change'
+            });
+
+            if (!picked) {
+                return;
+            }
+
+            if (picked.key === 'terminalMode') {
+                const mode = await vscode.window.showQuickPick([
+                    { label: 'shared' as TerminalMode, description: 'Reuse the terminal with the same name' },
+                    { label: 'new' as TerminalMode, description: 'Open a new terminal every time' },
+                    { label: 'split' as TerminalMode, description: 'Split the active terminal' },
+                    { label: 'background' as TerminalMode, description: 'Run without a terminal, with the output in the Output panel' }
+                ], { title: 'Terminal Mode' });
+                if (!mode) {
+                    continue;
+                }
+                settings.terminalMode = mode.label === 'shared' ? undefined : mode.label;
+            } else if (picked.key === 'env') {
+                const value = await vscode.window.showInputBox({
+                    prompt: 'Enter environment variables, separated by semicolons',
+                    placeHolder: 'e.g., NODE_ENV=development; PORT=3000',
+                    value: formatEnv(settings.env)
+                });
+                if (value === undefined) {
+                    continue;
+                }
+                const env = parseEnv(value);
+                settings.env = Object.keys(env).length > 0 ? env : undefined;
+            } else {
+                const key = picked.key;
+                const value = await vscode.window.showInputBox({
+                    prompt: `Enter ${picked.label.toLowerCase()}, or leave empty for the default`,
+                    placeHolder: key === 'cwd' ? 'e.g., ${workspaceFolder}/server' : undefined,
+                    value: settings[key] || ''
+                });
+                if (value === undefined) {
+                    continue;
+                }
+                settings[key] = value.trim() || undefined;
+            }
+
+            await this.treeProvider.batch(async () => {
+                for (const other of nodes) {
+                    const execution: ExecutionSettings = { ...this.treeProvider.findNodeById(other.id)?.execution, [picked.key]: settings[picked.key] };
+                    const hasSettings = Object.values(execution).some(value => value !== undefined);
+                    await this.treeProvider.updateNode(other.id, { execution: hasSettings ? execution : undefined });
+                }
+            });
+        }
+    }
+
+    /**
+     * Delete a node (command or group)
+     */
+    async deleteNode(node: TreeNode, selected?: TreeNode[]): Promise<void> {
+        const nodes = this.getSelection(node, selected).map(other => this.treeProvider.findNodeById(other.id) || other);
+        const count = nodes.reduce((total, other) => total + countDescendants(other), 0);
+
+        if (nodes.length > 1) {
+            const confirmed = await vscode.window.showWarningMessage(
+                `Delete ${nodes.length} selected items${count > 0 ? ` and the ${count} ${count === 1 ? 'item' : 'items'} inside them` : ''}?`,
+                { modal: true },
+                'Delete'
+            );
+            if (confirmed !== 'Delete') {
+                return;
+            }
+        } else if (count > 0) {
+            const confirmed = await vscode.window.showWarningMessage(
+                `Delete "${node.label}" and the ${count} ${count === 1 ? 'item' : 'items'} inside it?`,
+                { modal: true },
+                'Delete'
+            );
+            if (confirmed !== 'Delete') {
+                return;
+            }
+        }
+
+        await this.treeProvider.batch(async () => {
+            for (const other of nodes) {
+                await this.treeProvider.deleteNode(other.id);
+            }
+        });
+        vscode.window.showInformationMessage(nodes.length === 1 ? `"${node.label}" deleted successfully` : `${nodes.length} items deleted`);
+    }
+
+    /**
+     * Put a copy of each selected node right after it, with new ids
+     */
+    async duplicateNode(node: TreeNode, selected?: TreeNode[]): Promise<void> {
+        const nodes = this.getSelection(node, selected).filter(other => !this.treeProvider.isSection(other));
+        await this.treeProvider.duplicateNodes(nodes);
+    }
+
+    /**
+     * Recreate nodes copied as JSON in a group, or after a command
+     */
+    async pasteNode(node?: TreeNode): Promise<void> {
+        let nodes: TreeNode[];
+        try {
+            nodes = parseNodes(await vscode.env.clipboard.readText());
+        } catch (error) {
+            vscode.window.showErrorMessage('The clipboard doesn\'t contain commands copied as JSON', {
+                modal: true,
+                detail: error instanceof CommandDataError ? error.errors.slice(0, 10).join('\n') : `${error}`
+            });
+            return;
+        }
+
+        // Workflows can only contain commands
+        const destination = node && (isContainer(node) ? node : this.treeProvider.getParent(node) as TreeNode | null);
+        if (destination && isCommandWorkflow(destination) && !nodes.every(isCommandItem)) {
+            vscode.window.showWarningMessage('Only commands can be pasted into a workflow');
+            return;
+        }
+
+        await this.treeProvider.pasteNodes(nodes, node);
+        vscode.window.showInformationMessage(nodes.length === 1 ? `"${nodes[0].label}" pasted` : `${nodes.length} items pasted`);
+    }
+
+    /**
+     * Move the selected nodes into a new group, placed where the first of them was
+     */
+    async groupSelected(node: TreeNode, selected?: TreeNode[]): Promise<void> {
+        const nodes = this.getSelection(node, selected).filter(other => !this.treeProvider.isSection(other));
+        if (nodes.length === 0) {
+            return;
+        }
+
+        const label = await vscode.window.showInputBox({
+            prompt: 'Enter group name',
+            placeHolder: 'e.g., Docker Commands'
+        });
+        if (!label) {
+            return;
+        }
+
+        await this.treeProvider.groupNodes(nodes, label);
+        vscode.window.showInformationMessage(`${nodes.length === 1 ? '1 item' : `${nodes.length} items`} moved into "${label}"`);
+    }
+
+    /**
+     * Move node up
+     */
+    async moveUp(node: TreeNode, selected?: TreeNode[]): Promise<void> {
+        await this.treeProvider.moveUp(this.getSelection(node, selected).map(other => other.id));
+    }
+
+    /**
+     * Move node down
+     */
+    async moveDown(node: TreeNode, selected?: TreeNode[]): Promise<void> {
+        await this.treeProvider.moveDown(this.getSelection(node, selected).map(other => other.id));
+    }
+
+    /**
+     * Undo the last change to the tree
+     */
+    async undo(): Promise<void> {
+        if (!await this.treeProvider.undo()) {
+            vscode.window.showInformationMessage('Nothing to undo');
+        }
+    }
+
+    /**
+     * Redo the last undone change to the tree
+     */
+    async redo(): Promise<void> {
+        if (!await this.treeProvider.redo()) {
+            vscode.window.showInformationMessage('Nothing to redo');
+        }
+    }
+
+    /**
+     * Put a node from "Recently Deleted" back where it was deleted from
+     */
+    async restoreNode(node: TreeNode, selected?: TreeNode[]): Promise<void> {
+        for (const other of this.getSelection(node, selected)) {
+            const folder = this.treeProvider.getClosedTrashFolder(other);
+            if (folder) {
+                vscode.window.showWarningMessage(`"${other.label}" was deleted from the "${folder}" folder, open it to restore`);
+            } else if (await this.treeProvider.restoreNode(other)) {
+                vscode.window.showInformationMessage(`"${other.label}" restored`);
+            } else {
+                vscode.window.showWarningMessage(`"${other.label}" restored to the top level, because its group no longer exists`);
+            }
+        }
+    }
+
+    /**
+     * Remove a node from "Recently Deleted" for good
+     */
+    async deletePermanently(node: TreeNode, selected?: TreeNode[]): Promise<void> {
+        const nodes = this.getSelection(node, selected);
+        const confirmed = await vscode.window.showWarningMessage(
+            `Permanently delete ${nodes.length === 1 ? `"${node.label}"` : `${nodes.length} items`}? This cannot be undone.`,
+            { modal: true },
+            'Delete'
+        );
+        if (confirmed === 'Delete') {
+            for (const other of nodes) {
+                await this.treeProvider.deleteFromTrash(other);
+            }
+        }
+    }
+
+    /**
+     * Remove everything from "Recently Deleted" for good
+     */
+    async emptyTrash(): Promise<void> {
+        const confirmed = await vscode.window.showWarningMessage(
+            'Permanently delete everything in "Recently Deleted"? This cannot be undone.',
+            { modal: true },
+            'Empty'
+        );
+        if (confirmed === 'Empty') {
+            await this.treeProvider.emptyTrash();
+        }
+    }
+
+    /**
+     * Export all commands, or a single group, to a file
+     */
+    async exportData(node?: TreeNode): Promise<void> {
+        const found = node && this.treeProvider.findNodeById(node.id);
+        if (node && (!found || !isContainer(found))) {
+            vscode.window.showWarningMessage('Only groups can be exported');
+            return;
+        }
+        const group = found && isContainer(found) ? found : undefined;
+
+        const format = await vscode.window.showQuickPick(EXPORT_FORMATS, {
+            title: group ? `Export "${group.label}"` : 'Export Commands'
+        });
+
+        if (!format) {
+            return;
+        }
+
+        const baseName = format.id === 'tasks' ? 'tasks' : group ? toShellName(group.label) : 'command-notes-export';
+        const uri = await vscode.window.showSaveDialog({
+            filters: {
+                [format.filter]: [format.extension]
+            },
+            defaultUri: vscode.Uri.file(`${baseName}.${format.extension}`)
+        });
+
+        if (!uri) {
+            return;
+        }
+
+        try {
+            // A section stands for its contents, a group is exported with its name
+            const data = !group ? this.treeProvider.getData()
+                : this.treeProvider.isSection(group) ? group.children
+                    : [group];
+            const title = group ? group.label : 'Command Notes';
+
+            let content: string;
+            switch (format.id) {
+                case 'markdown':
+                    content = toMarkdown(group ? group.children : data, title);
+                    break;
+                case 'functions':
+                case 'aliases':
+                    content = toShellScript(data, format.id);
+                    break;
+                case 'tasks':
+                    content = toTasks(data);
+                    break;
+                default:
+                    content = JSON.stringify({ commands: data }, null, 2);
+            }
+
+            await vscode.workspace.fs.writeFile(uri, Buffer.from(content, 'utf8'));
+            vscode.window.showInformationMessage(`Commands exported to ${uri.fsPath}`);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to export: ${error}`);
+        }
+    }
+
+    /**
+     * Import commands from a JSON file
+     */
+    async importData(): Promise<void> {
+        const uris = await vscode.window.showOpenDialog({
+            filters: {
+                'JSON': ['json']
+            },
+            canSelectMany: false
+        });
+
+        if (!uris || uris.length === 0) {
+            return;
+        }
+
+        try {
+            const fileContent = await vscode.workspace.fs.readFile(uris[0]);
+            const nodes = parseCommandData(Buffer.from(fileContent).toString('utf8'));
+
+            const mode = this.treeProvider.getData().length === 0
+                ? { id: 'replace' }
+                : await vscode.window.showQuickPick([
+                    { id: 'merge', label: 'Merge', description: 'Add new commands and update matching ones, by id or command text' },
+                    { id: 'append', label: 'Append', description: 'Add everything into a new group' },
+                    { id: 'replace', label: 'Replace', description: 'Remove all current commands first' }
+                ], { title: 'Import Commands' });
+
+            if (!mode) {
+                return;
+            }
+
+            if (mode.id === 'merge') {
+                const plan = this.treeProvider.planImport(nodes);
+                if (await this.confirmMerge(plan)) {
+                    await this.treeProvider.importData(plan.nodes);
+                    vscode.window.showInformationMessage(
+                        `Commands imported: ${plan.added.length} added, ${plan.updated.length} updated, ${plan.skipped.length} skipped`
+                    );
+                }
+                return;
+            }
+
+            if (mode.id === 'append') {
+                const groupLabel = await vscode.window.showInputBox({
+                    prompt: 'Enter group name',
+                    value: path.parse(uris[0].fsPath).name
+                });
+                if (!groupLabel) {
+                    return;
+                }
+                await this.treeProvider.appendData(nodes, groupLabel);
+                vscode.window.showInformationMessage(`Commands imported into "${groupLabel}"`);
+                return;
+            }
+
+            if (this.treeProvider.getData().length > 0) {
+                const answer = await vscode.window.showWarningMessage(
+                    'Replace all current commands with the imported ones?',
+                    { modal: true },
+                    'Replace'
+                );
+                if (answer !== 'Replace') {
+                    return;
+                }
+            }
+
+            await this.treeProvider.importData(nodes);
+            vscode.window.showInformationMessage('Commands imported successfully');
+        } catch (error) {
+            if (error instanceof CommandDataError) {
+                vscode.window.showErrorMessage('Failed to import: invalid file', {
+                    modal: true,
+                    detail: error.errors.slice(0, 10).join('\n') + (error.errors.length > 10 ? `\n…and ${error.errors.length - 10} more` : '')
+                });
+            } else {
+                vscode.window.showErrorMessage(`Failed to import: ${error}`);
+            }
+        }
+    }
+
+    /**
+     * Replace the personal commands with one of the automatic backups
+     */
+    async restoreBackup(): Promise<void> {
+        const backups = await this.backupService.getBackups();
+        if (backups.length === 0) {
+            vscode.window.showInformationMessage('No backups yet. Backups are written shortly after commands change.');
+            return;
+        }
+
+        const current = this.treeProvider.getData();
+        const picked = await vscode.window.showQuickPick(backups.map(backup => {
+            const counts = countNodes(backup.nodes);
+            const diff = diffTrees(current, backup.nodes);
+            const changes = [
+                diff.added > 0 ? `${diff.added} added` : '',
+                diff.removed > 0 ? `${diff.removed} removed` : '',
+                diff.changed > 0 ? `${diff.changed} changed` : ''
+            ].filter(Boolean);
+            return {
+                label: new Date(backup.timestamp).toLocaleString(),
+                description: `${counts.commands} commands, ${counts.groups} groups`,
+                detail: changes.length > 0 ? `Compared to now: ${changes.join(', ')}` : 'Same as the current commands',
+                backup
+            };
+        }), {
+            title: 'Restore from Backup',
+            placeHolder: 'Select a backup to replace your personal commands with',
+            matchOnDescription: true
+        });
+
+        if (!picked) {
+            return;
+        }
+
+        const answer = await vscode.window.showWarningMessage(
+            `Replace your personal commands with the backup from ${picked.label}?`,
+            { modal: true, detail: 'The current commands are backed up first, and the restore can be undone.' },
+            'Restore'
+        );
+        if (answer !== 'Restore') {
+            return;
+        }
+
+        await this.backupService.backupNow();
+        await this.treeProvider.importData(picked.backup.nodes);
+        vscode.window.showInformationMessage(`Commands restored from the backup of ${picked.label}`);
+    }
+
+    /**
+     * Import commands picked from a shell history file
+     */
+    async importShellHistory(): Promise<void> {
+        const shells: { label: ShellKind; description: string }[] = [];
+        for (const shell of ['bash', 'zsh', 'fish'] as ShellKind[]) {
+            const historyPath = getShellHistoryPath(shell);
+            if (await this.fileExists(vscode.Uri.file(historyPath))) {
+                shells.push({ label: shell, description: historyPath });
+            }
+        }
+
+        if (shells.length === 0) {
+            vscode.window.showWarningMessage('No bash, zsh or fish history file found');
+            return;
+        }
+
+        const shell = shells.length === 1
+            ? shells[0]
+            : await vscode.window.showQuickPick(shells, { title: 'Import from Shell History' });
+        if (!shell) {
+            return;
+        }
+
+        const content = await this.readTextFile(vscode.Uri.file(shell.description)) || '';
+        const ranked = rankByFrequency(parseShellHistory(shell.label, content));
+
+        const picked = await vscode.window.showQuickPick(
+            ranked.map(({ command, count }) => ({ label: command, description: `${count}×` })),
+            { title: `Import from ${shell.description}`, placeHolder: 'Select commands to import', canPickMany: true }
+        );
+        if (!picked || picked.length === 0) {
+            return;
+        }
+
+        const parentId = await this.pickTargetGroup();
+        if (parentId === undefined) {
+            return;
+        }
+
+        await this.treeProvider.addCommands(
+            picked.map(item => ({ label: item.label, command: item.label })),
+            parentId || undefined
+        );
+        vscode.window.showInformationMessage(`${picked.length} command(s) imported successfully`);
+    }
+
+    /**
+     * Import package.json scripts, Makefile targets and tasks.json tasks as groups
+     */
+    async importWorkspaceCommands(): Promise<void> {
+        const folders = vscode.workspace.workspaceFolders || [];
+        const candidates: { label: string; description?: string; detail: string; picked: boolean; commands: ImportedCommand[] }[] = [];
+
+        const addCandidate = (label: string, folder: vscode.WorkspaceFolder, commands: ImportedCommand[]) => {
+            if (commands.length > 0) {
+                candidates.push({
+                    label,
+                    description: folders.length > 1 ? folder.name : undefined,
+                    detail: commands.map(command => command.label).join(', '),
+                    picked: true,
+                    commands
+                });
+            }
+        };
+
+        for (const folder of folders) {
+            try {
+                const packageJson = await this.readTextFile(vscode.Uri.joinPath(folder.uri, 'package.json'));
+                if (packageJson !== undefined) {
+                    addCandidate('npm scripts', folder, parsePackageScripts(packageJson, await this.detectPackageRunner(folder)));
+                }
+
+                for (const name of ['GNUmakefile', 'makefile', 'Makefile']) {
+                    const makefile = await this.readTextFile(vscode.Uri.joinPath(folder.uri, name));
+                    if (makefile !== undefined) {
+                        addCandidate('Makefile targets', folder, parseMakefileTargets(makefile));
+                        break;
+                    }
+                }
+
+                const tasks = await this.readTextFile(vscode.Uri.joinPath(folder.uri, '.vscode', 'tasks.json'));
+                if (tasks !== undefined) {
+                    addCandidate('Tasks', folder, parseTasks(tasks));
+                }
+            } catch (error) {
+                vscode.window.showErrorMessage(`Failed to read commands from ${folder.name}: ${error}`);
+            }
+        }
+
+        if (candidates.length === 0) {
+            vscode.window.showWarningMessage('No package.json scripts, Makefile targets or tasks found in the workspace');
+            return;
+        }
+
+        const picked = await vscode.window.showQuickPick(candidates, {
+            title: 'Import from Workspace',
+            placeHolder: 'Select what to import, each becomes a new group',
+            canPickMany: true
+        });
+        if (!picked || picked.length === 0) {
+            return;
+        }
+
+        const parentId = await this.pickTargetGroup();
+        if (parentId === undefined) {
+            return;
+        }
+
+        for (const candidate of picked) {
+            const groupLabel = candidate.description ? `${candidate.label} (${candidate.description})` : candidate.label;
+            await this.treeProvider.addCommands(candidate.commands, parentId || undefined, groupLabel);
+        }
+        vscode.window.showInformationMessage(`${picked.length} group(s) imported successfully`);
+    }
+
+    /**
+     * VS Code passes the clicked node and, with multi-select, every selected node.
+     * The selection only counts if the clicked node is part of it.
+     */
+    private getSelection(node: TreeNode, selected?: TreeNode[]): TreeNode[] {
+        const nodes = selected && selected.some(other => other.id === node.id) ? selected : [node];
+        return this.treeProvider.getOutermost(nodes);
+    }
+
+    /**
+     * Ask for the command, label, description and notes, one step at a time.
+     * Returns undefined if cancelled.
+     */
+    private async showCommandForm(title: string, initial: CommandFields): Promise<{ fields: CommandFields; editNotes: boolean } | undefined> {
+        const fields: CommandFields = {
+            label: initial.label,
+            command: initial.command,
+            description: initial.description,
+            notes: initial.notes
+        };
+        const notesButton: vscode.QuickInputButton = {
+            iconPath: new vscode.ThemeIcon('go-to-file'),
+            tooltip: 'Save and edit notes in a Markdown editor'
+        };
+        const steps: (Omit<InputStep, 'title' | 'step' | 'totalSteps' | 'value'> & { value: () => string; apply: (value: string) => void })[] = [
+            {
+                prompt: 'Enter command to execute',
+                placeholder: 'e.g., docker-compose up -d',
+                value: () => fields.command,
+                validate: value => value.trim() ? undefined : 'The command cannot be empty',
+                apply: value => {
+                    // Labels that were just the command keep following it
+                    if (!fields.label || fields.label === fields.command) {
+                        fields.label = value;
+                    }
+                    fields.command = value;
+                }
+            },
+            {
+                prompt: 'Enter a label, or leave empty to show the command',
+                placeholder: 'e.g., Start containers',
+                value: () => fields.label === fields.command ? '' : fields.label,
+                apply: value => fields.label = value.trim() || fields.command
+            },
+            {
+                prompt: 'Enter an optional description, use \\n for line breaks',
+                value: () => escapeNewlines(fields.description),
+                apply: value => fields.description = unescapeNewlines(value)
+            },
+            {
+                prompt: 'Enter optional Markdown notes, use \\n for line breaks, or edit them in an editor with the button above',
+                value: () => escapeNewlines(fields.notes),
+                buttons: [notesButton],
+                apply: value => fields.notes = unescapeNewlines(value)
+            }
+        ];
+
+        for (let index = 0; index < steps.length;) {
+            const { value, apply, ...step } = steps[index];
+            const result = await showInputStep({ ...step, title, step: index + 1, totalSteps: steps.length, value: value() });
+
+            if (!result) {
+                return undefined;
+            }
+
+            if (result.kind === 'back') {
+                index--;
+                continue;
+            }
+
+            apply(result.value);
+            if (result.kind === 'button') {
+                return { fields, editNotes: true };
+            }
+            index++;
+        }
+
+        return { fields, editNotes: false };
+    }
+
+    private async openNotes(id: string, label: string): Promise<void> {
+        const document = await vscode.workspace.openTextDocument(NotesFileSystemProvider.uriFor(id, label));
+        await vscode.window.showTextDocument(document);
+    }
+
+    /**
+     * List what a merge would change and ask to go ahead
+     */
+    private async confirmMerge(plan: MergePlan): Promise<boolean> {
+        if (plan.added.length === 0 && plan.updated.length === 0) {
+            vscode.window.showInformationMessage(`Nothing to import, all ${plan.skipped.length} command(s) already exist`);
+            return false;
+        }
+
+        const describe = (node: TreeNode) => isCommandItem(node) ? node.command : `${node.label} (${node.children.length} items)`;
+        const confirmItem: vscode.QuickPickItem = {
+            label: '$(check) Import',
+            description: `${plan.added.length} added, ${plan.updated.length} updated, ${plan.skipped.length} skipped`
+        };
+        const section = (label: string): vscode.QuickPickItem => ({ label, kind: vscode.QuickPickItemKind.Separator });
+
+        const quickPick = vscode.window.createQuickPick();
+        quickPick.title = 'Import Preview';
+        quickPick.placeholder = 'Select "Import" to apply these changes';
+        quickPick.items = [
+            confirmItem,
+            section('Added'),
+            ...plan.added.map(node => ({ label: `$(add) ${node.label}`, description: describe(node) })),
+            section('Updated'),
+            ...plan.updated.map(({ before, after }) => ({
+                label: `$(edit) ${after.label}`,
+                description: isCommandItem(before) && isCommandItem(after) && before.command !== after.command
+                    ? `${before.command} → ${after.command}`
+                    : describe(after)
+            })),
+            section('Skipped'),
+            ...plan.skipped.map(node => ({ label: `$(circle-slash) ${node.label}`, description: describe(node) }))
+        ];
+
+        return new Promise(resolve => {
+            quickPick.onDidAccept(() => {
+                if (quickPick.selectedItems[0] === confirmItem) {
+                    resolve(true);
+                    quickPick.hide();
+                }
+            });
+            quickPick.onDidHide(() => {
+                resolve(false);
+                quickPick.dispose();
+            });
+            quickPick.show();
+        });
+    }
+
+    /**
+     * Ask for the group to add new commands to.
+     * Returns '' for root level, or undefined if cancelled.
+     */
+    private async pickTargetGroup(): Promise<string | undefined> {
+        const newGroupItem = { label: '$(new-folder) New Group...', id: 'new' };
+        const picked = await vscode.window.showQuickPick([
+            { label: '$(root-folder) Root Level', id: '' },
+            ...this.treeProvider.getAllGroups().map(group => ({
+                label: `$(folder) ${group.label}`,
+                description: this.treeProvider.getGroupPath(group).join(' › ') || undefined,
+                id: group.id
+            })),
+            newGroupItem
+        ], { title: 'Add to Group' });
+
+        if (!picked) {
+            return undefined;
+        }
+
+        if (picked === newGroupItem) {
+            const label = await vscode.window.showInputBox({
+                prompt: 'Enter group name',
+                placeHolder: 'e.g., Docker Commands'
+            });
+            return label ? this.treeProvider.addGroup(label) : undefined;
+        }
+
+        return picked.id;
+    }
+
+    /**
+     * Save text from an editor, terminal or code block as a new command, asking for its label and group
+     */
+    private async saveAsNote(text: string): Promise<void> {
+        const command = text.trim();
+        if (!command) {
+            vscode.window.showWarningMessage('Select a command to add first');
+            return;
+        }
+
+        const label = await vscode.window.showInputBox({
+            title: 'Add to Command Notes',
+            prompt: 'Enter a label for the command',
+            value: command.split('\n')[0]
+        });
+        if (label === undefined) {
+            return;
+        }
+
+        const parentId = await this.pickTargetGroup();
+        if (parentId === undefined) {
+            return;
+        }
+
+        await this.treeProvider.addCommand(label.trim() || command, command, undefined, parentId || undefined);
+        vscode.window.showInformationMessage(`Command "${label.trim() || command}" added successfully`);
+    }
+
+    /**
+     * Use the package manager whose lockfile is in the folder
+     */
+    private async detectPackageRunner(folder: vscode.WorkspaceFolder): Promise<string> {
+        for (const [lockfile, runner] of [['pnpm-lock.yaml', 'pnpm'], ['yarn.lock', 'yarn'], ['bun.lockb', 'bun']]) {
+            if (await this.fileExists(vscode.Uri.joinPath(folder.uri, lockfile))) {
+                return runner;
+            }
+        }
+        return 'npm';
+    }
+
+    private async fileExists(uri: vscode.Uri): Promise<boolean> {
+        try {
+            await vscode.workspace.fs.stat(uri);
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    private async readTextFile(uri: vscode.Uri): Promise<string | undefined> {
+        try {
+            return Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+        } catch {
+            return undefined;
+        }
+    }
+
+    /**
+     * Run every step of a workflow, or every command in a group
+     */
+    private async runGroup(node: TreeNode): Promise<void> {
+        const current = this.treeProvider.findNodeById(node.id) || node;
+        if (!isContainer(current)) {
+            vscode.window.showWarningMessage('Only groups and workflows can be run');
+            return;
+        }
+
+        const steps = this.treeProvider.getDescendantCommands(current);
+        if (steps.length === 0) {
+            vscode.window.showWarningMessage(`"${current.label}" has no commands to run`);
+            return;
+        }
+
+        const mode: WorkflowMode = isCommandWorkflow(current) ? current.mode : 'sequential';
+        const stopOnFailure = isCommandWorkflow(current) ? current.stopOnFailure : true;
+
+        // Resolve every step up front so prompts don't interrupt the run
+        const prepared: { step: CommandItem; commandText: string; runText: string; settings: ExecutionSettings }[] = [];
+        for (const step of steps) {
+            const commandText = await this.resolveCommand(step);
+            if (commandText === undefined || !await this.confirmRun(step.label, commandText, step)) {
+                return;
+            }
+
+            const settings = await this.resolveExecutionSettings(step);
+            if (!settings) {
+                return;
+            }
+
+            const runText = await this.fillSecrets(commandText);
+            if (runText === undefined) {
+                return;
+            }
+
+            if (mode === 'parallel' && settings.terminalMode !== 'background') {
+                // Steps running at the same time can't share a terminal
+                settings.terminalMode = 'new';
+                settings.terminalName = settings.terminalName || `${DEFAULT_TERMINAL_NAME}: ${step.label}`;
+            }
+            prepared.push({ step, commandText, runText, settings });
+        }
+
+        prepared.forEach(({ step }) => this.treeProvider.setRunStatus(step.id, 'queued'));
+
+        const runStep = async ({ step, commandText, runText, settings }: typeof prepared[number]): Promise<number | undefined> => {
+            this.treeProvider.setRunStatus(step.id, 'running');
+            const run = await this.runInTerminal(step.label, commandText, settings, step.id, runText);
+            const exitCode = await run.exitCode;
+            this.treeProvider.setRunStatus(step.id, exitCode === undefined ? 'sent' : exitCode === 0 ? 'succeeded' : 'failed');
+            return exitCode;
+        };
+
+        let failed = 0;
+        if (mode === 'parallel') {
+            const exitCodes = await Promise.all(prepared.map(runStep));
+            failed = exitCodes.filter(exitCode => exitCode !== undefined && exitCode !== 0).length;
+        } else {
+            for (const [index, preparedStep] of prepared.entries()) {
+                const exitCode = await runStep(preparedStep);
+                if (exitCode === undefined || exitCode === 0) {
+                    continue;
+                }
+
+                failed++;
+                if (stopOnFailure) {
+                    prepared.slice(index + 1).forEach(({ step }) => this.treeProvider.setRunStatus(step.id, 'skipped'));
+                    break;
+                }
+            }
+        }
+
+        if (failed > 0) {
+            vscode.window.showErrorMessage(`"${current.label}" finished with ${failed} failed step(s)`);
+        } else {
+            vscode.window.showInformationMessage(`Executed: ${current.label}`);
+        }
+    }
+
+    /**
+     * Run commands one after another, stopping if one is cancelled
+     */
+    private async runCommands(nodes: TreeNode[], preview: boolean): Promise<void> {
+        const commands = nodes.filter(isCommandItem);
+        if (commands.length === 0) {
+            vscode.window.showWarningMessage('Only commands can be executed');
+            return;
+        }
+
+        for (const command of commands) {
+            if (!await this.runCommand(command, preview)) {
+                return;
+            }
+        }
+    }
+
+    /**
+     * Run one command, resolves false if it was cancelled
+     */
+    private async runCommand(node: CommandItem, preview: boolean): Promise<boolean> {
+        let commandText = await this.resolveCommand(node);
+        if (commandText === undefined) {
+            return false;
+        }
+
+        // Let the user check the resolved command before it runs
+        const previewResolved = vscode.workspace.getConfiguration('commandNotes').get<boolean>('previewResolvedCommand', false);
+        if (preview || (previewResolved && commandText !== node.command)) {
+            commandText = await vscode.window.showInputBox({
+                title: `Preview: ${node.label}`,
+                prompt: 'Press Enter to execute or Escape to cancel',
+                value: commandText
+            });
+            if (!commandText) {
+                return false;
+            }
+        }
+
+        if (!await this.confirmRun(node.label, commandText, node)) {
+            return false;
+        }
+
+        const settings = await this.resolveExecutionSettings(node);
+        if (!settings) {
+            return false;
+        }
+
+        const runText = await this.fillSecrets(commandText);
+        if (runText === undefined) {
+            return false;
+        }
+
+        const run = await this.runInTerminal(node.label, commandText, settings, node.id, runText);
+        if (settings.terminalMode !== 'background') {
+            vscode.window.showInformationMessage(`Executed: ${node.label}`);
+            return true;
+        }
+
+        // The progress notification takes the place of the message, and the tree shows how it ends
+        this.treeProvider.setRunStatus(node.id, 'running');
+        run.exitCode.then(exitCode => {
+            this.treeProvider.setRunStatus(node.id, exitCode === undefined ? undefined : exitCode === 0 ? 'succeeded' : 'failed');
+        });
+        return true;
+    }
+
+    /**
+     * Run one command as a task, resolves false if it was cancelled
+     */
+    private async runTask(node: CommandItem): Promise<boolean> {
+        const commandText = await this.resolveCommand(node);
+        if (commandText === undefined || !await this.confirmRun(node.label, commandText, node)) {
+            return false;
+        }
+
+        const settings = await this.resolveExecutionSettings(node);
+        if (!settings) {
+            return false;
+        }
+
+        const runText = await this.secretResolver.resolve(commandText);
+        if (runText === undefined) {
+            return false;
+        }
+
+        const task = this.taskProvider.createTask(node, runText, settings);
+
+        // Listen before starting the task, a quick one can end before executeTask resolves
+        const ended: vscode.TaskProcessEndEvent[] = [];
+        let checkEnded = () => { };
+        const listener = vscode.tasks.onDidEndTaskProcess(event => {
+            ended.push(event);
+            checkEnded();
+        });
+
+        let execution: vscode.TaskExecution;
+        try {
+            execution = await vscode.tasks.executeTask(task);
+        } catch (error) {
+            listener.dispose();
+            throw error;
+        }
+        this.treeProvider.setRunStatus(node.id, 'running');
+
+        const entry = await this.historyProvider.addEntry({
+            commandId: node.id,
+            label: node.label,
+            command: commandText,
+            terminalName: task.name,
+            cwd: settings.cwd
+        });
+
+        // Which execution is ours is only known now, so look through what already ended before waiting
+        checkEnded = () => {
+            const event = ended.find(event => event.execution === execution);
+            if (!event) {
+                return;
+            }
+            listener.dispose();
+
+            if (event.exitCode !== undefined) {
+                this.historyProvider.setExitCode(entry.id, event.exitCode);
+            }
+            this.treeProvider.setRunStatus(node.id, event.exitCode === undefined ? 'sent' : event.exitCode === 0 ? 'succeeded' : 'failed');
+        };
+        checkEnded();
+        return true;
+    }
+
+    /**
+     * Ask before running a command that is marked for confirmation, matches a danger pattern,
+     * or has a tag that requires typing its name. Resolves true when it may run.
+     */
+    private async confirmRun(label: string, commandText: string, node?: CommandItem): Promise<boolean> {
+        const config = vscode.workspace.getConfiguration('commandNotes');
+
+        const tags = node ? findTypeToConfirmTags(this.treeProvider.getTags(node), config.get<string[]>('typeToConfirmTags', [])) : [];
+        if (tags.length > 0) {
+            const typed = await vscode.window.showInputBox({
+                title: `Run "${label}" (${tags.map(tag => `#${tag}`).join(' ')})`,
+                prompt: `This will run: ${commandText}`,
+                placeHolder: `Type "${label}" to confirm`,
+                ignoreFocusOut: true,
+                validateInput: value => value === label ? undefined : `Type "${label}" to confirm`
+            });
+            return typed === label;
+        }
+
+        const pattern = findDangerPattern(commandText, config.get<string[]>('dangerPatterns', []));
+        if (!node?.confirm && !pattern) {
+            return true;
+        }
+
+        const confirmed = await vscode.window.showWarningMessage(
+            `Run "${label}"?`,
+            {
+                modal: true,
+                detail: pattern ? `${commandText}\n\nMatches the danger pattern ${pattern}` : commandText
+            },
+            'Run'
+        );
+        return confirmed === 'Run';
+    }
+
+    /**
+     * Fill in placeholders and context variables.
+     * Returns undefined if the user cancelled or a variable could not be resolved.
+     */
+    private async resolveCommand(node: CommandItem): Promise<string | undefined> {
+        const commandText = await this.placeholderResolver.resolve(node);
+        if (commandText === undefined) {
+            return undefined;
+        }
+
+        try {
+            return await this.variableResolver.resolve(commandText);
+        } catch (error) {
+            vscode.window.showErrorMessage(error instanceof Error ? error.message : `${error}`);
+            return undefined;
+        }
+    }
+
+    /**
+     * Get the commands using a secret, in their command text or environment
+     */
+    private getSecretUsers(name: string): CommandItem[] {
+        return this.treeProvider.getAllCommands().filter(command =>
+            [command.command, ...Object.values(command.execution?.env || {})].some(text => parseSecretNames(text).includes(name)));
+    }
+
+    /**
+     * Fill in the secrets of a resolved command just before it is sent to the terminal.
+     * Returns undefined if the user cancelled setting a missing secret.
+     */
+    private async fillSecrets(commandText: string): Promise<string | undefined> {
+        const runText = await this.secretResolver.resolve(commandText);
+
+        // A leading space keeps the command out of the shell history when HISTCONTROL ignores spaces
+        return runText !== undefined && runText !== commandText ? ` ${runText}` : runText;
+    }
+
+    /**
+     * Send a command to its terminal, or run it in the background, and record it in history.
+     * History gets the command with secret placeholders, the terminal gets runText with secrets filled in.
+     */
+    private async runInTerminal(label: string, commandText: string, settings: ExecutionSettings, commandId?: string, runText = commandText): Promise<Pick<TerminalRun, 'cwd' | 'exitCode'>> {
+        const background = settings.terminalMode === 'background';
+        let run: Pick<TerminalRun, 'cwd' | 'exitCode'>;
+        let terminalName = DEFAULT_TERMINAL_NAME;
+        if (background) {
+            run = this.backgroundRunner.run(label, commandText, runText, settings);
+        } else {
+            const terminalRun = await this.terminalManager.run(settings, runText);
+            terminalName = terminalRun.terminal.name;
+            run = terminalRun;
+        }
+
+        const entry = await this.historyProvider.addEntry({
+            commandId,
+            label,
+            command: commandText,
+            terminalName,
+            cwd: run.cwd,
+            background: background || undefined
+        });
+
+        run.exitCode.then(exitCode => {
+            if (exitCode !== undefined) {
+                this.historyProvider.setExitCode(entry.id, exitCode);
+            }
+        });
+
+        return run;
+    }
+
+    /**
+     * Combine the terminal settings of a command and its groups, with variables resolved.
+     * Returns undefined if a variable could not be resolved.
+     */
+    private async resolveExecutionSettings(node: CommandItem): Promise<ExecutionSettings | undefined> {
+        const settings = this.treeProvider.getExecutionSettings(node);
+
+        try {
+            if (settings.cwd) {
+                settings.cwd = this.treeProvider.resolveWorkingDirectory(node, await this.variableResolver.resolve(settings.cwd));
+            }
+            if (settings.env) {
+                for (const [key, value] of Object.entries(settings.env)) {
+                    // Secrets can be passed in environment variables to keep them off the command line
+                    const resolved = await this.secretResolver.resolve(await this.variableResolver.resolve(value));
+                    if (resolved === undefined) {
+                        return undefined;
+                    }
+                    settings.env[key] = resolved;
+                }
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage(error instanceof Error ? error.message : `${error}`);
+            return undefined;
+        }
+
+        // A command with its own cwd, env or shell gets its own terminal
+        if (!settings.terminalName && (settings.cwd || settings.env || settings.shellPath)) {
+            settings.terminalName = `${DEFAULT_TERMINAL_NAME}: ${node.label}`;
+        }
+
+        return settings;
     }
 }
@@ -0,0 +1,230 @@
+import { CommandItem, TreeNode, isCommandItem, isCommandWorkflow } from './types';
+import { Placeholder, applyPlaceholders, parsePlaceholders } from './placeholderResolver';
+import { parseSecretNames } from './secretResolver';
+
+/**
+ * Render commands as a Markdown cheat sheet, with groups as headings
+ */
+export function toMarkdown(nodes: TreeNode[], title: string): string {
+    const lines: string[] = [`# ${title}`, ''];
+
+    const renderCommand = (node: CommandItem) => {
+        if (node.label !== node.command) {
+            lines.push(`**${node.label}**`, '');
+        }
+        if (node.description) {
+            lines.push(node.description, '');
+        }
+        lines.push('```sh', node.command, '```', '');
+        if (node.notes) {
+            lines.push(node.notes.trim(), '');
+        }
+    };
+
+    const render = (children: TreeNode[], depth: number) => {
+        for (const node of children) {
+            if (isCommandItem(node)) {
+                renderCommand(node);
+                continue;
+            }
+
+            lines.push(`${'#'.repeat(Math.min(depth, 6))} ${node.label}`, '');
+            if (isCommandWorkflow(node)) {
+                lines.push(`Workflow, run ${node.mode === 'parallel' ? 'in parallel' : 'in order'}:`, '');
+                lines.push(toCodeBlock(node.children.filter(isCommandItem).map(step => step.command)), '');
+            } else {
+                render(node.children, depth + 1);
+            }
+        }
+    };
+
+    render(nodes, 2);
+    return lines.join('\n').trimEnd() + '\n';
+}
+
+/**
+ * Turn a label into a shell identifier, e.g. "Start Server" becomes start_server
+ */
+export function toShellName(label: string): string {
+    const name = label.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+    return /^[a-z_]/.test(name) ? name : `cmd_${name}`;
+}
+
+/**
+ * Put `command` before calls of a function's own name in its body, so a function named after
+ * the command it wraps, like cd, runs that command instead of calling itself
+ */
+function callCommand(line: string, name: string): string {
+    return line.replace(new RegExp(`(^\\s*|[;&|(]\\s*)${name}(?=$|[\\s;&|)])`, 'g'), `$1command ${name}`);
+}
+
+/**
+ * Render commands as a shell script of functions or aliases, one per command.
+ * Placeholders become the function's arguments, in the order they first appear.
+ * Commands using secrets, and aliases with placeholders, are left out with a comment.
+ */
+export function toShellScript(nodes: TreeNode[], style: 'functions' | 'aliases'): string {
+    const lines: string[] = ['#!/usr/bin/env bash', '# Generated by Command Notes', ''];
+    const usedNames = new Set<string>();
+
+    const uniqueName = (label: string) => {
+        const base = toShellName(label);
+        let name = base;
+        for (let suffix = 2; usedNames.has(name); suffix++) {
+            name = `${base}_${suffix}`;
+        }
+        usedNames.add(name);
+        return name;
+    };
+
+    const render = (children: TreeNode[], path: string[]) => {
+        for (const node of children) {
+            if (!isCommandItem(node)) {
+                lines.push(`# ${[...path, node.label].join(' / ')}`, '');
+                render(node.children, [...path, node.label]);
+                continue;
+            }
+
+            const placeholders = parsePlaceholders(node.command);
+            if (parseSecretNames(node.command).length > 0) {
+                lines.push(`# Left out "${node.label}", it uses secrets`, '');
+                continue;
+            }
+            if (style === 'aliases' && placeholders.length > 0) {
+                lines.push(`# Left out "${node.label}", aliases can't take arguments for its placeholders`, '');
+                continue;
+            }
+
+            const name = uniqueName(node.label);
+            if (node.description) {
+                lines.push(...node.description.split('\n').map(line => `# ${line}`));
+            }
+            if (style === 'aliases') {
+                lines.push(`alias ${name}='${node.command.replace(/'/g, `'\\''`)}'`);
+            } else {
+                const args: Record<string, string> = {};
+                placeholders.forEach((placeholder, index) => {
+                    args[placeholder.name] = placeholder.defaultValue !== undefined ? `\${${index + 1}:-${placeholder.defaultValue}}` : `\${${index + 1}}`;
+                });
+                if (placeholders.length > 0) {
+                    lines.push(`# Usage: ${name} ${placeholders.map(placeholder => `<${placeholder.name}>`).join(' ')}`);
+                }
+                const body = applyPlaceholders(node.command, args).split('\n').map(line => `    ${callCommand(line, name)}`);
+                lines.push(`${name}() {`, ...body, '}');
+            }
+            lines.push('');
+        }
+    };
+
+    render(nodes, []);
+    return lines.join('\n').trimEnd() + '\n';
+}
+
+/**
+ * Render commands as a tasks.json file.
+ * Tasks are named after their group path, workflows depend on their steps.
+ * Placeholders become ${input:...} variables with a matching entry in "inputs",
+ * commands using secrets are left out with a comment.
+ */
+export function toTasks(nodes: TreeNode[]): string {
+    const tasks: object[] = [];
+    const inputs: { id: string; type: string }[] = [];
+    const comments: string[] = [];
+
+    // Placeholders with the same name share an input, unless they ask differently
+    const toInput = (placeholder: Placeholder): string => {
+        const fields = placeholder.kind === 'pick' && placeholder.options.length > 0
+            ? { type: 'pickString', description: placeholder.name, options: placeholder.options }
+            : { type: 'promptString', description: placeholder.name, ...(placeholder.defaultValue !== undefined ? { default: placeholder.defaultValue } : {}) };
+        const same = inputs.find(({ id: _id, ...existing }) => JSON.stringify(existing) === JSON.stringify(fields));
+        if (same) {
+            return same.id;
+        }
+
+        let id = placeholder.name;
+        for (let suffix = 2; inputs.some(input => input.id === id); suffix++) {
+            id = `${placeholder.name}_${suffix}`;
+        }
+        inputs.push({ id, ...fields });
+        return id;
+    };
+
+    const render = (children: TreeNode[], path: string[]): string[] => {
+        const labels: string[] = [];
+        for (const node of children) {
+            const label = [...path, node.label].join(' / ');
+
+            if (isCommandItem(node)) {
+                if ([node.command, ...Object.values(node.execution?.env || {})].some(text => parseSecretNames(text).length > 0)) {
+                    comments.push(`// Left out "${label}", it uses secrets`);
+                    continue;
+                }
+
+                const values: Record<string, string> = {};
+                for (const placeholder of parsePlaceholders(node.command)) {
+                    values[placeholder.name] = `\${input:${toInput(placeholder)}}`;
+                }
+
+                const options: Record<string, unknown> = {};
+                if (node.execution?.cwd) {
+                    options.cwd = node.execution.cwd;
+                }
+                if (node.execution?.env) {
+                    options.env = node.execution.env;
+                }
+                tasks.push({
+                    label,
+                    type: 'shell',
+                    command: applyPlaceholders(node.command, values),
+                    ...(node.description ? { detail: node.description } : {}),
+                    ...(Object.keys(options).length > 0 ? { options } : {}),
+                    problemMatcher: []
+                });
+                labels.push(label);
+            } else if (isCommandWorkflow(node)) {
+                tasks.push({
+                    label,
+                    dependsOn: render(node.children, [...path, node.label]),
+                    dependsOrder: node.mode === 'parallel' ? 'parallel' : 'sequence',
+                    problemMatcher: []
+                });
+                labels.push(label);
+            } else {
+                render(node.children, [...path, node.label]);
+            }
+        }
+        return labels;
+    };
+
+    render(nodes, []);
+    const json = JSON.stringify({ version: '2.0.0', tasks, ...(inputs.length > 0 ? { inputs } : {}) }, null, 2);
+    return [...comments, json].join('\n') + '\n';
+}
+
+/**
+ * Wrap commands in a fenced Markdown code block
+ */
+export function toCodeBlock(commands: string[]): string {
+    const body = commands.join('\n');
+    // Use a longer fence if the commands contain one themselves
+    const fence = '`'.repeat(Math.max(3, ...(body.match(/`{3,}/g) || []).map(match => match.length + 1)));
+    return `${fence}sh\n${body}\n${fence}`;
+}
+
+/**
+ * Turn commands into a single `bash -c` line, quoting them so they run unchanged
+ */
+export function toBashOneLiner(commands: string[]): string {
+    const script = commands.join('\n');
+    if (!/[\n\r\t]/.test(script)) {
+        return `bash -c '${script.replace(/'/g, `'\\''`)}'`;
+    }
+    // ANSI-C quoting keeps line breaks on one line
+    const escaped = script
+        .replace(/\\/g, '\\\\')
+        .replace(/'/g, `\\'`)
+        .replace(/\n/g, '\\n')
+        .replace(/\r/g, '\\r')
+        .replace(/\t/g, '\\t');
+    return `bash -c $'${escaped}'`;
+}
@@ -2,6 +2,19 @@ import * as vscode from 'vscode';
 import { StorageService } from './storageService';
 import { CommandTreeProvider } from './commandTreeProvider';
 import { CommandHandler } from './commands';
+import { PlaceholderResolver } from './placeholderResolver';
+import { VariableResolver } from './variableResolver';
+import { SecretResolver } from './secretResolver';
+import { TerminalManager } from './terminalManager';
+import { BackgroundRunner } from './backgroundRunner';
+import { HistoryTreeProvider } from './historyTreeProvider';
+import { NOTES_SCHEME, NotesFileSystemProvider } from './notesFileSystem';
+import { CommandSource, GlobalCommandSource, PersonalFileCommandSource, WorkspaceCommandSource, resolveStorageFile } from './commandSource';
+import { TagTreeProvider } from './tagTreeProvider';
+import { BackupService } from './backupService';
+import { CommandTaskProvider, TASK_TYPE } from './commandTaskProvider';
+import { CodeBlockCodeLensProvider } from './codeBlockCodeLensProvider';
+import { PinnedStatusBar } from './pinnedStatusBar';
 
 export function activate(context: vscode.ExtensionContext) {
 	console.log('Command Notes extension is now active!');
@@ -9,30 +22,152 @@ export function activate(context: vscode.ExtensionContext) {
 	// Initialize services
 	const storageService = new StorageService(context);
 	const treeProvider = new CommandTreeProvider(storageService);
-	const commandHandler = new CommandHandler(treeProvider);
+	const placeholderResolver = new PlaceholderResolver(storageService);
+	const variableResolver = new VariableResolver();
+	const secretResolver = new SecretResolver(context.secrets);
+	const terminalManager = new TerminalManager();
+	const backgroundRunner = new BackgroundRunner();
+	const historyProvider = new HistoryTreeProvider(storageService);
+	const backupService = new BackupService(treeProvider, context.globalStorageUri);
+	const taskProvider = new CommandTaskProvider(treeProvider, placeholderResolver);
+	const codeLensProvider = new CodeBlockCodeLensProvider();
+	const commandHandler = new CommandHandler(treeProvider, placeholderResolver, variableResolver, secretResolver, terminalManager, backgroundRunner, historyProvider, backupService, taskProvider);
 
-	// Initialize tree provider with stored data
-	treeProvider.initialize();
+	// Sync personal commands with Settings Sync only if asked to
+	const applySyncSetting = () => {
+		storageService.setSyncEnabled(vscode.workspace.getConfiguration('commandNotes').get<boolean>('syncWithSettingsSync', false));
+	};
+	applySyncSetting();
+
+	// Personal commands first, from global storage or the chosen file, then one source per workspace folder
+	const createSources = (): CommandSource[] => {
+		const storageFile = resolveStorageFile(vscode.workspace.getConfiguration('commandNotes').get<string>('storageFile', ''));
+		return [
+			storageFile ? new PersonalFileCommandSource(storageFile) : new GlobalCommandSource(storageService),
+			...(vscode.workspace.workspaceFolders || []).map(folder => new WorkspaceCommandSource(folder))
+		];
+	};
+
+	// Initialize tree provider with stored data, then back up anything changed since the last session
+	treeProvider.setSources(createSources())
+		.then(() => backupService.backupNow().catch(error => vscode.window.showWarningMessage(`Failed to back up commands: ${error}`)))
+		.catch(error => vscode.window.showErrorMessage(`Failed to load commands: ${error}`));
 
 	// Register TreeView
 	const treeView = vscode.window.createTreeView('commandNotes', {
 		treeDataProvider: treeProvider,
 		showCollapseAll: true,
-		canSelectMany: false,
+		canSelectMany: true,
 		dragAndDropController: treeProvider
 	});
 
+	// Show the active filter in the view header
+	treeProvider.onDidChangeFilter(query => {
+		treeView.description = query ? `Filter: ${query}` : undefined;
+		vscode.commands.executeCommand('setContext', 'commandNotes.filtered', query !== undefined);
+	});
+
+	// Register tags view, grouping commands by tag
+	const tagProvider = new TagTreeProvider(treeProvider);
+	const tagView = vscode.window.createTreeView('commandNotesTags', {
+		treeDataProvider: tagProvider
+	});
+
+	// Show pinned commands in the status bar
+	const pinnedStatusBar = new PinnedStatusBar(treeProvider);
+
+	// Register history view
+	historyProvider.initialize();
+	const historyView = vscode.window.createTreeView('commandNotesHistory', {
+		treeDataProvider: historyProvider
+	});
+
 	// Register commands
 	context.subscriptions.push(
 		// TreeView
 		treeView,
+		treeProvider,
+		tagView,
+		tagProvider,
+		historyView,
+		historyProvider,
+		backupService,
+		pinnedStatusBar,
+
+		// Notes of commands, editable as Markdown files
+		vscode.workspace.registerFileSystemProvider(NOTES_SCHEME, new NotesFileSystemProvider(treeProvider), { isCaseSensitive: true }),
+		terminalManager,
+		backgroundRunner,
+
+		// Saved commands as tasks, for "Run Task", dependsOn and preLaunchTask
+		vscode.tasks.registerTaskProvider(TASK_TYPE, taskProvider),
+
+		// Run and save shell code blocks of Markdown files
+		codeLensProvider,
+		vscode.languages.registerCodeLensProvider({ language: 'markdown' }, codeLensProvider),
+
+		// Reload sources when workspace folders are added or removed
+		vscode.workspace.onDidChangeWorkspaceFolders(() => {
+			treeProvider.setSources(createSources()).catch(error => vscode.window.showErrorMessage(`Failed to load commands: ${error}`));
+		}),
+
+		// Switch where personal commands are stored when the settings change
+		vscode.workspace.onDidChangeConfiguration(async event => {
+			if (event.affectsConfiguration('commandNotes.syncWithSettingsSync')) {
+				applySyncSetting();
+			}
+			if (event.affectsConfiguration('commandNotes.storageFile')) {
+				const previous = treeProvider.getData();
+				try {
+					await treeProvider.setSources(createSources());
+
+					// Offer to bring the commands along instead of starting from nothing
+					if (previous.length > 0 && treeProvider.getData().length === 0) {
+						const choice = await vscode.window.showInformationMessage('The new storage location has no commands yet. Copy your personal commands there?', 'Copy');
+						if (choice === 'Copy') {
+							await treeProvider.importData(previous);
+						}
+					}
+				} catch (error) {
+					vscode.window.showErrorMessage(`Failed to switch the storage location: ${error}`);
+				}
+			}
+		}),
 
 		// Execute and Copy commands
-		vscode.commands.registerCommand('command-notes.executeCommand', (node) => {
-			commandHandler.executeCommand(node);
+		vscode.commands.registerCommand('command-notes.executeCommand', (node, selected) => {
+			commandHandler.executeCommand(node, selected);
+		}),
+		vscode.commands.registerCommand('command-notes.previewCommand', (node, selected) => {
+			commandHandler.previewCommand(node, selected);
+		}),
+		vscode.commands.registerCommand('command-notes.runAsTask', (node, selected) => {
+			commandHandler.runAsTask(node, selected);
+		}),
+		vscode.commands.registerCommand('command-notes.togglePinned', (node, selected) => {
+			commandHandler.togglePinned(node, selected);
+		}),
+		// Keybinding slots for the pinned commands, in tree order
+		...Array.from({ length: 9 }, (_, index) => vscode.commands.registerCommand(`command-notes.runPinned${index + 1}`, () => {
+			commandHandler.runPinned(index + 1);
+		})),
+		vscode.commands.registerCommand('command-notes.quickRun', () => {
+			commandHandler.quickRun();
+		}),
+		vscode.commands.registerCommand('command-notes.runAll', (node, selected) => {
+			commandHandler.runAll(node, selected);
+		}),
+		vscode.commands.registerCommand('command-notes.copyCommand', (node, selected) => {
+			commandHandler.copyCommand(node, selected);
+		}),
+		vscode.commands.registerCommand('command-notes.copyAs', (node, selected) => {
+			commandHandler.copyAs(node, selected);
 		}),
-		vscode.commands.registerCommand('command-notes.copyCommand', (node) => {
-			commandHandler.copyCommand(node);
+		vscode.commands.registerCommand('command-notes.duplicateNode', (node, selected) => {
+			commandHandler.duplicateNode(node, selected);
+		}),
+		vscode.commands.registerCommand('command-notes.pasteNode', (node) => {
+			commandHandler.pasteNode(node);
 		}),
 
 		// Add commands
@@ -42,26 +177,81 @@ export function activate(context: vscode.ExtensionContext) {
 		vscode.commands.registerCommand('command-notes.addGroup', (node) => {
 			commandHandler.addGroup(node);
 		}),
+		vscode.commands.registerCommand('command-notes.addWorkflow', (node) => {
+			commandHandler.addWorkflow(node);
+		}),
 
 		// Edit commands
 		vscode.commands.registerCommand('command-notes.editCommand', (node) => {
 			commandHandler.editCommand(node);
 		}),
+		vscode.commands.registerCommand('command-notes.editNotes', (node) => {
+			commandHandler.editNotes(node);
+		}),
 		vscode.commands.registerCommand('command-notes.renameGroup', (node) => {
 			commandHandler.renameGroup(node);
 		}),
 
+		vscode.commands.registerCommand('command-notes.configureWorkflow', (node, selected) => {
+			commandHandler.configureWorkflow(node, selected);
+		}),
+		vscode.commands.registerCommand('command-notes.configureTerminal', (node, selected) => {
+			commandHandler.configureTerminal(node, selected);
+		}),
+
+		// Tags and look
+		vscode.commands.registerCommand('command-notes.editTags', (node, selected) => {
+			commandHandler.editTags(node, selected);
+		}),
+		vscode.commands.registerCommand('command-notes.setIcon', (node, selected) => {
+			commandHandler.setIcon(node, selected);
+		}),
+		vscode.commands.registerCommand('command-notes.setColor', (node, selected) => {
+			commandHandler.setColor(node, selected);
+		}),
+		vscode.commands.registerCommand('command-notes.toggleConfirm', (node, selected) => {
+			commandHandler.toggleConfirm(node, selected);
+		}),
+
 		// Delete command
-		vscode.commands.registerCommand('command-notes.deleteNode', (node) => {
-			commandHandler.deleteNode(node);
+		vscode.commands.registerCommand('command-notes.deleteNode', (node, selected) => {
+			commandHandler.deleteNode(node, selected);
+		}),
+		vscode.commands.registerCommand('command-notes.groupSelected', (node, selected) => {
+			commandHandler.groupSelected(node, selected);
 		}),
 
 		// Move commands
-		vscode.commands.registerCommand('command-notes.moveUp', (node) => {
-			commandHandler.moveUp(node);
+		vscode.commands.registerCommand('command-notes.moveUp', (node, selected) => {
+			commandHandler.moveUp(node, selected);
+		}),
+		vscode.commands.registerCommand('command-notes.moveDown', (node, selected) => {
+			commandHandler.moveDown(node, selected);
+		}),
+
+		// Undo, redo and recently deleted
+		vscode.commands.registerCommand('command-notes.undo', () => {
+			commandHandler.undo();
+		}),
+		vscode.commands.registerCommand('command-notes.redo', () => {
+			commandHandler.redo();
 		}),
-		vscode.commands.registerCommand('command-notes.moveDown', (node) => {
-			commandHandler.moveDown(node);
+		vscode.commands.registerCommand('command-notes.restoreNode', (node, selected) => {
+			commandHandler.restoreNode(node, selected);
+		}),
+		vscode.commands.registerCommand('command-notes.deletePermanently', (node, selected) => {
+			commandHandler.deletePermanently(node, selected);
+		}),
+		vscode.commands.registerCommand('command-notes.emptyTrash', () => {
+			commandHandler.emptyTrash();
+		}),
+
+		// Filter commands
+		vscode.commands.registerCommand('command-notes.filter', () => {
+			commandHandler.filter();
+		}),
+		vscode.commands.registerCommand('command-notes.clearFilter', () => {
+			commandHandler.clearFilter();
 		}),
 
 		// Refresh command
@@ -69,12 +259,66 @@ export function activate(context: vscode.ExtensionContext) {
 			treeProvider.refresh();
 		}),
 
+		// History commands
+		vscode.commands.registerCommand('command-notes.rerunHistoryEntry', (entry) => {
+			commandHandler.rerunHistoryEntry(entry);
+		}),
+		vscode.commands.registerCommand('command-notes.copyHistoryEntry', (entry) => {
+			commandHandler.copyHistoryEntry(entry);
+		}),
+		vscode.commands.registerCommand('command-notes.saveHistoryEntry', (entry) => {
+			commandHandler.saveHistoryEntry(entry);
+		}),
+		vscode.commands.registerCommand('command-notes.deleteHistoryEntry', (entry) => {
+			commandHandler.deleteHistoryEntry(entry);
+		}),
+		vscode.commands.registerCommand('command-notes.clearHistory', () => {
+			commandHandler.clearHistory();
+		}),
+
 		// Export/Import commands
 		vscode.commands.registerCommand('command-notes.export', () => {
 			commandHandler.exportData();
 		}),
+		vscode.commands.registerCommand('command-notes.exportGroup', (node) => {
+			commandHandler.exportData(node);
+		}),
 		vscode.commands.registerCommand('command-notes.import', () => {
 			commandHandler.importData();
+		}),
+		vscode.commands.registerCommand('command-notes.importShellHistory', () => {
+			commandHandler.importShellHistory();
+		}),
+		vscode.commands.registerCommand('command-notes.importWorkspace', () => {
+			commandHandler.importWorkspaceCommands();
+		}),
+		vscode.commands.registerCommand('command-notes.restoreBackup', () => {
+			commandHandler.restoreBackup();
+		}),
+
+		// Code blocks, editor and terminal selections
+		vscode.commands.registerCommand('command-notes.runCodeBlock', (code: string) => {
+			commandHandler.runCodeBlock(code);
+		}),
+		vscode.commands.registerCommand('command-notes.saveCodeBlock', (code: string) => {
+			commandHandler.saveCodeBlock(code);
+		}),
+		vscode.commands.registerCommand('command-notes.addEditorSelection', () => {
+			commandHandler.addEditorSelection();
+		}),
+		vscode.commands.registerCommand('command-notes.addTerminalSelection', () => {
+			commandHandler.addTerminalSelection();
+		}),
+
+		// Secrets
+		vscode.commands.registerCommand('command-notes.setSecret', () => {
+			commandHandler.setSecret();
+		}),
+		vscode.commands.registerCommand('command-notes.listSecrets', () => {
+			commandHandler.listSecrets();
+		}),
+		vscode.commands.registerCommand('command-notes.deleteSecret', () => {
+			commandHandler.deleteSecret();
 		})
 	);
 }
@@ -0,0 +1,100 @@
+import * as vscode from 'vscode';
+import { HistoryEntry } from './types';
+import { StorageService } from './storageService';
+
+export class HistoryTreeItem extends vscode.TreeItem {
+    constructor(public readonly entry: HistoryEntry) {
+        super(entry.command, vscode.TreeItemCollapsibleState.None);
+
+        const time = new Date(entry.timestamp).toLocaleString();
+        const status = entry.exitCode === undefined ? 'exit code unknown' : `exit code ${entry.exitCode}`;
+
+        this.description = time;
+        this.tooltip = [
+            entry.command,
+            `${entry.label} · ${time}`,
+            entry.background ? 'Ran in the background' : `Terminal: ${entry.terminalName}`,
+            ...(entry.cwd ? [`Directory: ${entry.cwd}`] : []),
+            status
+        ].join('\n');
+        this.contextValue = 'historyEntry';
+
+        if (entry.exitCode === undefined) {
+            this.iconPath = new vscode.ThemeIcon('history');
+        } else if (entry.exitCode === 0) {
+            this.iconPath = new vscode.ThemeIcon('pass', new vscode.ThemeColor('testing.iconPassed'));
+        } else {
+            this.iconPath = new vscode.ThemeIcon('error', new vscode.ThemeColor('testing.iconFailed'));
+        }
+    }
+}
+
+export class HistoryTreeProvider implements vscode.TreeDataProvider<HistoryEntry> {
+    private _onDidChangeTreeData: vscode.EventEmitter<HistoryEntry | undefined | null | void> = new vscode.EventEmitter<HistoryEntry | undefined | null | void>();
+    readonly onDidChangeTreeData: vscode.Event<HistoryEntry | undefined | null | void> = this._onDidChangeTreeData.event;
+
+    private entries: HistoryEntry[] = [];
+
+    constructor(private storageService: StorageService) { }
+
+    async initialize(): Promise<void> {
+        this.entries = await this.storageService.loadHistory();
+        this.refresh();
+    }
+
+    refresh(): void {
+        this._onDidChangeTreeData.fire();
+    }
+
+    getTreeItem(element: HistoryEntry): vscode.TreeItem {
+        return new HistoryTreeItem(element);
+    }
+
+    getChildren(element?: HistoryEntry): Thenable<HistoryEntry[]> {
+        return Promise.resolve(element ? [] : this.entries);
+    }
+
+    /**
+     * Record a run, dropping the oldest entries beyond the configured limit
+     */
+    async addEntry(entry: Omit<HistoryEntry, 'id' | 'timestamp'>): Promise<HistoryEntry> {
+        const newEntry: HistoryEntry = {
+            ...entry,
+            id: this.storageService.generateId(),
+            timestamp: Date.now()
+        };
+
+        const limit = vscode.workspace.getConfiguration('commandNotes').get<number>('historySize', 100);
+        this.entries = [newEntry, ...this.entries].slice(0, Math.max(limit, 0));
+
+        await this.storageService.saveHistory(this.entries);
+        this.refresh();
+        return newEntry;
+    }
+
+    async setExitCode(id: string, exitCode: number): Promise<void> {
+        this.entries = this.entries.map(entry => entry.id === id ? { ...entry, exitCode } : entry);
+        await this.storageService.saveHistory(this.entries);
+        this.refresh();
+    }
+
+    async deleteEntry(id: string): Promise<void> {
+        this.entries = this.entries.filter(entry => entry.id !== id);
+        await this.storageService.saveHistory(this.entries);
+        this.refresh();
+    }
+
+    async clear(): Promise<void> {
+        this.entries = [];
+        await this.storageService.saveHistory(this.entries);
+        this.refresh();
+    }
+
+    getEntries(): HistoryEntry[] {
+        return this.entries;
+    }
+
+    dispose(): void {
+        this._onDidChangeTreeData.dispose();
+    }
+}
@@ -0,0 +1,242 @@
+import * as os from 'os';
+import * as path from 'path';
+import { CommandItem } from './types';
+
+/**
+ * A command read from another source, ready to be added to the tree
+ */
+export type ImportedCommand = Pick<CommandItem, 'label' | 'command' | 'description'>;
+
+/**
+ * A command from shell history with how often it was run
+ */
+export interface HistoryCommand {
+    command: string;
+    count: number;
+}
+
+export type ShellKind = 'bash' | 'zsh' | 'fish';
+
+/**
+ * Default location of each shell's history file
+ */
+export function getShellHistoryPath(shell: ShellKind): string {
+    const home = os.homedir();
+    switch (shell) {
+        case 'bash':
+            return path.join(home, '.bash_history');
+        case 'zsh':
+            return path.join(process.env.ZDOTDIR || home, '.zsh_history');
+        case 'fish':
+            return path.join(process.env.XDG_DATA_HOME || path.join(home, '.local', 'share'), 'fish', 'fish_history');
+    }
+}
+
+/**
+ * Parse ~/.bash_history, skipping the #<timestamp> lines written with HISTTIMEFORMAT
+ */
+export function parseBashHistory(content: string): string[] {
+    return content.split(/\r?\n/)
+        .filter(line => !/^#\d+$/.test(line))
+        .map(line => line.trim())
+        .filter(line => line.length > 0);
+}
+
+/**
+ * Parse ~/.zsh_history in plain or extended (": <start>:<elapsed>;<command>") format.
+ * Lines ending with a backslash continue on the next line.
+ */
+export function parseZshHistory(content: string): string[] {
+    const commands: string[] = [];
+    let current: string | undefined;
+
+    for (const line of content.split(/\r?\n/)) {
+        if (current !== undefined) {
+            current += '\n' + line;
+        } else {
+            current = line.replace(/^: \d+:\d+;/, '');
+        }
+
+        if (current.endsWith('\\')) {
+            current = current.slice(0, -1);
+            continue;
+        }
+
+        if (current.trim().length > 0) {
+            commands.push(current.trim());
+        }
+        current = undefined;
+    }
+
+    return commands;
+}
+
+/**
+ * Parse fish history, which stores entries as "- cmd: <command>" with escaped newlines
+ */
+export function parseFishHistory(content: string): string[] {
+    const commands: string[] = [];
+    for (const line of content.split(/\r?\n/)) {
+        const match = /^- cmd: (.*)$/.exec(line);
+        if (match) {
+            const command = match[1].replace(/\\(.)/g, (_, char: string) => char === 'n' ? '\n' : char).trim();
+            if (command.length > 0) {
+                commands.push(command);
+            }
+        }
+    }
+    return commands;
+}
+
+export function parseShellHistory(shell: ShellKind, content: string): string[] {
+    switch (shell) {
+        case 'bash':
+            return parseBashHistory(content);
+        case 'zsh':
+            return parseZshHistory(content);
+        case 'fish':
+            return parseFishHistory(content);
+    }
+}
+
+/**
+ * Remove duplicates, most frequent first and most recent first among equals.
+ * Commands are expected oldest first, as history files store them.
+ */
+export function rankByFrequency(commands: string[]): HistoryCommand[] {
+    const stats = new Map<string, { count: number; lastIndex: number }>();
+    commands.forEach((command, index) => {
+        const existing = stats.get(command);
+        stats.set(command, { count: (existing?.count || 0) + 1, lastIndex: index });
+    });
+
+    return [...stats.entries()]
+        .sort(([, a], [, b]) => b.count - a.count || b.lastIndex - a.lastIndex)
+        .map(([command, { count }]) => ({ command, count }));
+}
+
+/**
+ * Remove comments and trailing commas so JSON with comments, like tasks.json, can be parsed
+ */
+export function stripJsonComments(content: string): string {
+    let result = '';
+    let inString = false;
+
+    for (let i = 0; i < content.length; i++) {
+        const char = content[i];
+        const next = content[i + 1];
+
+        if (inString) {
+            result += char;
+            if (char === '\\') {
+                result += next ?? '';
+                i++;
+            } else if (char === '"') {
+                inString = false;
+            }
+        } else if (char === '"') {
+            inString = true;
+            result += char;
+        } else if (char === '/' && next === '/') {
+            while (i < content.length && content[i] !== '\n') {
+                i++;
+            }
+            result += '\n';
+        } else if (char === '/' && next === '*') {
+            i = content.indexOf('*/', i + 2);
+            if (i < 0) {
+                break;
+            }
+            i++;
+        } else {
+            result += char;
+        }
+    }
+
+    return result.replace(/,(\s*[}\]])/g, '$1');
+}
+
+/**
+ * Read the scripts of a package.json as "<runner> run <script>" commands
+ */
+export function parsePackageScripts(content: string, runner = 'npm'): ImportedCommand[] {
+    const scripts: Record<string, unknown> = JSON.parse(content).scripts || {};
+    return Object.entries(scripts)
+        .filter(([, script]) => typeof script === 'string')
+        .map(([name, script]) => ({
+            label: name,
+            command: `${runner} run ${name}`,
+            description: script as string
+        }));
+}
+
+/**
+ * Read the explicit targets of a Makefile as "make <target>" commands
+ */
+export function parseMakefileTargets(content: string): ImportedCommand[] {
+    const targets = new Set<string>();
+    for (const line of content.split(/\r?\n/)) {
+        // "target: deps" and "target:: deps", but not variable assignments like "VAR := value" or "VAR ::= value"
+        const match = /^([A-Za-z0-9_][A-Za-z0-9_.\-/ ]*?)\s*::?(?![:=])/.exec(line);
+        if (match) {
+            match[1].split(/\s+/).filter(target => !/[%/]/.test(target)).forEach(target => targets.add(target));
+        }
+    }
+    return [...targets].map(target => ({ label: target, command: `make ${target}` }));
+}
+
+/**
+ * Read the shell and process tasks of a .vscode/tasks.json as commands
+ */
+export function parseTasks(content: string): ImportedCommand[] {
+    const tasks: { label?: string; type?: string; command?: unknown; args?: unknown[] }[] =
+        JSON.parse(stripJsonComments(content)).tasks || [];
+
+    return tasks
+        .filter(task => (task.type === 'shell' || task.type === 'process') && typeof task.command === 'string')
+        .map(task => {
+            const args = (task.args || []).map(arg => typeof arg === 'string' ? arg : (arg as { value?: string }).value || '');
+            const command = [task.command as string, ...args.map(arg => /\s/.test(arg) ? `"${arg}"` : arg)].join(' ');
+            return { label: task.label || command, command };
+        });
+}
+
+/**
+ * A shell code block in a Markdown file
+ */
+export interface ShellCodeBlock {
+    /** Line of the opening fence, from 0 */
+    line: number;
+    command: string;
+}
+
+const SHELL_LANGUAGES = ['sh', 'bash', 'shell', 'shellscript', 'zsh'];
+
+/**
+ * Find the fenced sh, bash, shell and zsh code blocks of a Markdown file
+ */
+export function parseShellCodeBlocks(content: string): ShellCodeBlock[] {
+    const blocks: ShellCodeBlock[] = [];
+    const lines = content.split(/\r?\n/);
+
+    for (let index = 0; index < lines.length; index++) {
+        const open = /^\s{0,3}(`{3,}|~{3,})\s*([^\s`]*)/.exec(lines[index]);
+        if (!open) {
+            continue;
+        }
+
+        // The block ends at a fence of the same kind, at least as long, or at the end of the file
+        const fence = open[1];
+        let end = index + 1;
+        while (end < lines.length && !new RegExp(`^\\s{0,3}${fence[0]}{${fence.length},}\\s*$`).test(lines[end])) {
+            end++;
+        }
+
+        const command = lines.slice(index + 1, end).join('\n').trim();
+        if (SHELL_LANGUAGES.includes(open[2].toLowerCase()) && command) {
+            blocks.push({ line: index, command });
+        }
+        index = end;
+    }
+    return blocks;
+}
@@ -0,0 +1,339 @@
+import { CommandItem, TreeNode, isCommandItem, isContainer } from './types';
+
+/**
+ * What importing nodes into an existing tree would change
+ */
+export interface MergePlan {
+    /** The tree after the merge */
+    nodes: TreeNode[];
+    added: TreeNode[];
+    updated: { before: TreeNode; after: TreeNode }[];
+    skipped: TreeNode[];
+}
+
+function sameMetadata(a: TreeNode, b: TreeNode): boolean {
+    return a.icon === b.icon
+        && a.color === b.color
+        && JSON.stringify(a.tags) === JSON.stringify(b.tags);
+}
+
+function sameCommand(a: CommandItem, b: CommandItem): boolean {
+    return a.label === b.label
+        && a.command === b.command
+        && a.description === b.description
+        && a.notes === b.notes
+        && a.confirm === b.confirm
+        && a.pinned === b.pinned
+        && a.statusBarText === b.statusBarText
+        && JSON.stringify(a.execution) === JSON.stringify(b.execution)
+        && sameMetadata(a, b);
+}
+
+/**
+ * Merge imported nodes into an existing tree without touching the original.
+ * Commands match by id, then by command text; groups and workflows match by id,
+ * then by label and type among the siblings they are merged into.
+ */
+export function planMerge(existing: TreeNode[], incoming: TreeNode[], generateId: () => string): MergePlan {
+    const plan: MergePlan = { nodes: structuredClone(existing), added: [], updated: [], skipped: [] };
+    const byId = new Map<string, TreeNode>();
+    const byCommand = new Map<string, CommandItem>();
+
+    const index = (node: TreeNode): void => {
+        byId.set(node.id, node);
+        if (isCommandItem(node)) {
+            if (!byCommand.has(node.command)) {
+                byCommand.set(node.command, node);
+            }
+        } else {
+            node.children.forEach(index);
+        }
+    };
+
+    // Imported nodes keep their ids unless those are already taken
+    const copyWithFreeIds = (node: TreeNode): TreeNode => {
+        const copy = { ...node, id: byId.has(node.id) ? generateId() : node.id } as TreeNode;
+        if (isContainer(copy)) {
+            copy.children = copy.children.map(copyWithFreeIds);
+        }
+        return copy;
+    };
+
+    const add = (siblings: TreeNode[], node: TreeNode): void => {
+        const copy = copyWithFreeIds(node);
+        siblings.push(copy);
+        plan.added.push(copy);
+        index(copy);
+    };
+
+    const mergeInto = (siblings: TreeNode[], nodes: TreeNode[]): void => {
+        for (const node of nodes) {
+            const sameId = byId.get(node.id);
+
+            if (isCommandItem(node)) {
+                const match = sameId && isCommandItem(sameId) ? sameId : byCommand.get(node.command);
+                if (!match) {
+                    add(siblings, node);
+                } else if (sameCommand(match, node)) {
+                    plan.skipped.push(node);
+                } else {
+                    plan.updated.push({ before: { ...match }, after: node });
+                    Object.assign(match, {
+                        label: node.label,
+                        command: node.command,
+                        description: node.description,
+                        notes: node.notes,
+                        confirm: node.confirm,
+                        pinned: node.pinned,
+                        statusBarText: node.statusBarText,
+                        execution: node.execution,
+                        tags: node.tags,
+                        icon: node.icon,
+                        color: node.color
+                    });
+                }
+                continue;
+            }
+
+            const match = sameId && sameId.type === node.type
+                ? sameId
+                : siblings.find(sibling => sibling.type === node.type && sibling.label === node.label);
+            if (!match || !isContainer(match)) {
+                add(siblings, node);
+                continue;
+            }
+
+            if (match.label !== node.label || !sameMetadata(match, node)) {
+                plan.updated.push({ before: { ...match }, after: node });
+                Object.assign(match, { label: node.label, tags: node.tags, icon: node.icon, color: node.color });
+            }
+            mergeInto(match.children, node.children);
+        }
+    };
+
+    plan.nodes.forEach(index);
+    mergeInto(plan.nodes, incoming);
+    return plan;
+}
+
+/**
+ * How many nodes of each kind a tree has, at any depth
+ */
+export function countNodes(nodes: TreeNode[]): { commands: number; groups: number } {
+    return nodes.reduce((counts, node) => {
+        if (isCommandItem(node)) {
+            return { ...counts, commands: counts.commands + 1 };
+        }
+        const inner = countNodes(node.children);
+        return { commands: counts.commands + inner.commands, groups: counts.groups + 1 + inner.groups };
+    }, { commands: 0, groups: 0 });
+}
+
+/**
+ * What replacing one tree with another would change, matching nodes by id.
+ * Nodes count as changed when anything but their children differs.
+ */
+export function diffTrees(from: TreeNode[], to: TreeNode[]): { added: number; removed: number; changed: number } {
+    const flatten = (nodes: TreeNode[], byId = new Map<string, string>()): Map<string, string> => {
+        for (const node of nodes) {
+            const { children, ...fields } = node as TreeNode & { children?: TreeNode[] };
+            byId.set(node.id, JSON.stringify(fields));
+            flatten(children || [], byId);
+        }
+        return byId;
+    };
+
+    const before = flatten(from);
+    const after = flatten(to);
+    let added = 0;
+    let changed = 0;
+    for (const [id, fields] of after) {
+        if (!before.has(id)) {
+            added++;
+        } else if (before.get(id) !== fields) {
+            changed++;
+        }
+    }
+    const removed = [...before.keys()].filter(id => !after.has(id)).length;
+    return { added, removed, changed };
+}
+
+interface PlacedNode {
+    node: TreeNode;
+    parentId: string | undefined;
+}
+
+interface MergedNode extends PlacedNode {
+    // Whether the node goes where the other side put it, rather than where ours did
+    fromTheirs: boolean;
+}
+
+function flattenWithPlaces(nodes: TreeNode[], parentId?: string, places = new Map<string, PlacedNode>()): Map<string, PlacedNode> {
+    for (const node of nodes) {
+        places.set(node.id, { node, parentId });
+        if (isContainer(node)) {
+            flattenWithPlaces(node.children, node.id, places);
+        }
+    }
+    return places;
+}
+
+/**
+ * Get the ids of the children of every container, by container id and undefined for the top level
+ */
+function listChildren(nodes: TreeNode[], parentId?: string, lists = new Map<string | undefined, string[]>()): Map<string | undefined, string[]> {
+    lists.set(parentId, nodes.map(node => node.id));
+    for (const node of nodes) {
+        if (isContainer(node)) {
+            listChildren(node.children, node.id, lists);
+        }
+    }
+    return lists;
+}
+
+/**
+ * Find the ids in the longest order two lists have in common
+ */
+function findCommonOrder(a: string[], b: string[]): Set<string> {
+    // lengths[i][j] is the length of the longest common order of a from i and b from j
+    const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+        }
+    }
+
+    const common = new Set<string>();
+    for (let i = 0, j = 0; i < a.length && j < b.length;) {
+        if (a[i] === b[j]) {
+            common.add(a[i]);
+            i++;
+            j++;
+        } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+            i++;
+        } else {
+            j++;
+        }
+    }
+    return common;
+}
+
+/**
+ * Find the nodes one side moved: into another container, or out of order with the siblings they kept.
+ * Nodes that only shifted because something was added or deleted next to them don't count.
+ */
+function findMoved(baseLists: Map<string | undefined, string[]>, sideLists: Map<string | undefined, string[]>): Set<string> {
+    const inBase = new Set([...baseLists.values()].flat());
+    const moved = new Set<string>();
+    for (const [parentId, ids] of sideLists) {
+        const original = baseLists.get(parentId) || [];
+        const kept = ids.filter(id => original.includes(id));
+        const inOrder = findCommonOrder(original.filter(id => kept.includes(id)), kept);
+        for (const id of ids) {
+            if (inBase.has(id) && !inOrder.has(id)) {
+                moved.add(id);
+            }
+        }
+    }
+    return moved;
+}
+
+function sameFields(a: TreeNode, b: TreeNode): boolean {
+    const { children: _a, ...fieldsA } = a as TreeNode & { children?: TreeNode[] };
+    const { children: _b, ...fieldsB } = b as TreeNode & { children?: TreeNode[] };
+    return JSON.stringify(fieldsA) === JSON.stringify(fieldsB);
+}
+
+/**
+ * Merge two edited copies of the same tree by node id, given the tree they both started from.
+ * For each node, the side that changed its fields or moved it wins, ours when both did.
+ * A deleted node stays deleted unless the other side changed or moved it.
+ * Siblings keep our order, with the nodes the other side added or moved put after the node they follow there.
+ */
+export function mergeByNodeId(base: TreeNode[], ours: TreeNode[], theirs: TreeNode[]): TreeNode[] {
+    const basePlaces = flattenWithPlaces(base);
+    const ourPlaces = flattenWithPlaces(ours);
+    const theirPlaces = flattenWithPlaces(theirs);
+
+    const baseLists = listChildren(base);
+    const ourLists = listChildren(ours);
+    const theirLists = listChildren(theirs);
+    const ourMoves = findMoved(baseLists, ourLists);
+    const theirMoves = findMoved(baseLists, theirLists);
+
+    const merged = new Map<string, MergedNode>();
+    for (const id of new Set([...ourPlaces.keys(), ...theirPlaces.keys()])) {
+        const original = basePlaces.get(id);
+        const our = ourPlaces.get(id);
+        const their = theirPlaces.get(id);
+
+        if (!original || !our || !their) {
+            // Added on one side, or on both with the same id, or deleted on one side and kept only if the other side changed it
+            const kept = (our || their)!;
+            const moved = our ? ourMoves.has(id) : theirMoves.has(id);
+            if (!original || !sameFields(kept.node, original.node) || moved) {
+                merged.set(id, { ...kept, fromTheirs: !our });
+            }
+            continue;
+        }
+
+        const node = sameFields(our.node, original.node) ? their.node : our.node;
+        const fromTheirs = theirMoves.has(id) && !ourMoves.has(id);
+        merged.set(id, { node, parentId: (fromTheirs ? their : our).parentId, fromTheirs });
+    }
+
+    // Nodes whose group is gone go to the top level
+    const parentOf = (place: MergedNode) => place.parentId !== undefined && merged.has(place.parentId) && isContainer(merged.get(place.parentId)!.node)
+        ? place.parentId
+        : undefined;
+
+    const orderChildren = (parentId: string | undefined): string[] => {
+        const placedBy = (id: string, fromTheirs: boolean) => {
+            const place = merged.get(id);
+            return place !== undefined && place.fromTheirs === fromTheirs && parentOf(place) === parentId;
+        };
+
+        const order = (ourLists.get(parentId) || []).filter(id => placedBy(id, false));
+        const theirOrder = theirLists.get(parentId) || [];
+        theirOrder.forEach((id, index) => {
+            if (placedBy(id, true)) {
+                const previous = theirOrder.slice(0, index).reverse().find(other => order.includes(other));
+                order.splice(previous === undefined ? 0 : order.indexOf(previous) + 1, 0, id);
+            }
+        });
+
+        const ordered = new Set(order);
+        for (const [id, place] of merged) {
+            if (!ordered.has(id) && parentOf(place) === parentId) {
+                order.push(id);
+            }
+        }
+        return order;
+    };
+
+    const visited = new Set<string>();
+    const build = (id: string): TreeNode => {
+        visited.add(id);
+        const node = { ...merged.get(id)!.node } as TreeNode;
+        if (isContainer(node)) {
+            node.children = orderChildren(node.id).filter(child => !visited.has(child)).map(build);
+        }
+        return node;
+    };
+
+    const result = orderChildren(undefined).map(build);
+
+    // Nodes moved into each other on different sides form a loop that isn't reachable, put it at the top
+    for (const id of merged.keys()) {
+        if (!visited.has(id)) {
+            const seen = new Set<string>();
+            let top = id;
+            while (!seen.has(top)) {
+                seen.add(top);
+                top = parentOf(merged.get(top)!)!;
+            }
+            result.push(build(top));
+        }
+    }
+    return result;
+}
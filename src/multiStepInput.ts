@@ -0,0 +1,66 @@
+import * as vscode from 'vscode';
+
+/**
+ * One input box of a multi-step form
+ */
+export interface InputStep {
+    title: string;
+    step: number;
+    totalSteps: number;
+    prompt: string;
+    placeholder?: string;
+    value: string;
+    buttons?: vscode.QuickInputButton[];
+    validate?: (value: string) => string | undefined;
+}
+
+/**
+ * What the user did in a step: entered a value, went back, or pressed one of the step's buttons
+ */
+export type InputStepResult =
+    | { kind: 'value'; value: string }
+    | { kind: 'back' }
+    | { kind: 'button'; button: vscode.QuickInputButton; value: string };
+
+/**
+ * Show one step of a multi-step form. Resolves with undefined if the user cancelled.
+ */
+export function showInputStep(options: InputStep): Promise<InputStepResult | undefined> {
+    const input = vscode.window.createInputBox();
+    input.title = options.title;
+    input.step = options.step;
+    input.totalSteps = options.totalSteps;
+    input.prompt = options.prompt;
+    input.placeholder = options.placeholder;
+    input.value = options.value;
+    input.ignoreFocusOut = true;
+    input.buttons = [
+        ...(options.step > 1 ? [vscode.QuickInputButtons.Back] : []),
+        ...(options.buttons || [])
+    ];
+
+    return new Promise(resolve => {
+        let result: InputStepResult | undefined;
+
+        input.onDidChangeValue(value => {
+            input.validationMessage = options.validate?.(value);
+        });
+        input.onDidAccept(() => {
+            if (!options.validate?.(input.value)) {
+                result = { kind: 'value', value: input.value };
+                input.hide();
+            }
+        });
+        input.onDidTriggerButton(button => {
+            result = button === vscode.QuickInputButtons.Back
+                ? { kind: 'back' }
+                : { kind: 'button', button, value: input.value };
+            input.hide();
+        });
+        input.onDidHide(() => {
+            input.dispose();
+            resolve(result);
+        });
+        input.show();
+    });
+}
@@ -0,0 +1,83 @@
+import * as vscode from 'vscode';
+import { CommandTreeProvider } from './commandTreeProvider';
+import { isCommandItem } from './types';
+
+export const NOTES_SCHEME = 'command-notes';
+
+/**
+ * Lets the Markdown notes of a command be edited in a regular editor.
+ * Files are addressed as command-notes:/<command id>/<label>.md and saving writes back to the tree.
+ */
+export class NotesFileSystemProvider implements vscode.FileSystemProvider {
+    private _onDidChangeFile = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
+    readonly onDidChangeFile = this._onDidChangeFile.event;
+
+    private modified = new Map<string, number>();
+
+    constructor(private treeProvider: CommandTreeProvider) { }
+
+    /**
+     * Get the URI of the notes of a command
+     */
+    static uriFor(id: string, label: string): vscode.Uri {
+        const fileName = label.replace(/[\\/:*?"<>|\n]+/g, ' ').trim().slice(0, 60) || 'notes';
+        return vscode.Uri.from({ scheme: NOTES_SCHEME, path: `/${id}/${fileName}.md` });
+    }
+
+    watch(): vscode.Disposable {
+        return new vscode.Disposable(() => { });
+    }
+
+    stat(uri: vscode.Uri): vscode.FileStat {
+        const notes = this.readNotes(uri);
+        return {
+            type: vscode.FileType.File,
+            ctime: 0,
+            mtime: this.modified.get(uri.toString()) || 0,
+            size: Buffer.byteLength(notes, 'utf8')
+        };
+    }
+
+    readFile(uri: vscode.Uri): Uint8Array {
+        return Buffer.from(this.readNotes(uri), 'utf8');
+    }
+
+    async writeFile(uri: vscode.Uri, content: Uint8Array): Promise<void> {
+        const id = this.getCommandId(uri);
+        this.readNotes(uri);
+
+        const notes = Buffer.from(content).toString('utf8');
+        await this.treeProvider.updateNode(id, { notes: notes.trim() ? notes : undefined });
+
+        this.modified.set(uri.toString(), Date.now());
+        this._onDidChangeFile.fire([{ type: vscode.FileChangeType.Changed, uri }]);
+    }
+
+    readDirectory(): [string, vscode.FileType][] {
+        return [];
+    }
+
+    createDirectory(): void {
+        throw vscode.FileSystemError.NoPermissions();
+    }
+
+    delete(): void {
+        throw vscode.FileSystemError.NoPermissions();
+    }
+
+    rename(): void {
+        throw vscode.FileSystemError.NoPermissions();
+    }
+
+    private getCommandId(uri: vscode.Uri): string {
+        return uri.path.split('/')[1] || '';
+    }
+
+    private readNotes(uri: vscode.Uri): string {
+        const node = this.treeProvider.findNodeById(this.getCommandId(uri));
+        if (!node || !isCommandItem(node)) {
+            throw vscode.FileSystemError.FileNotFound(uri);
+        }
+        return node.notes || '';
+    }
+}
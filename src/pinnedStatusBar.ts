@@ -0,0 +1,51 @@
+import * as vscode from 'vscode';
+import { CommandTreeProvider } from './commandTreeProvider';
+
+// Priority of the first pinned command, the others follow to its right
+const PRIORITY = 100;
+
+/**
+ * Shows each pinned command as a status bar item that runs it on click
+ */
+export class PinnedStatusBar implements vscode.Disposable {
+    private items: vscode.StatusBarItem[] = [];
+    private shown = '';
+    private listener: vscode.Disposable;
+
+    constructor(private treeProvider: CommandTreeProvider) {
+        this.listener = treeProvider.onDidChangeTreeData(() => this.update());
+        this.update();
+    }
+
+    dispose(): void {
+        this.listener.dispose();
+        this.items.forEach(item => item.dispose());
+        this.items = [];
+    }
+
+    private update(): void {
+        const pinned = this.treeProvider.getPinnedCommands();
+
+        // The tree also changes for things like run status, only rebuild when the pinned commands changed
+        const shown = JSON.stringify(pinned);
+        if (shown === this.shown) {
+            return;
+        }
+        this.shown = shown;
+
+        // Priorities are fixed once an item is created, so recreate them all to keep the order
+        this.items.forEach(item => item.dispose());
+        this.items = pinned.map((command, index) => {
+            const item = vscode.window.createStatusBarItem(`commandNotes.pinned.${command.id}`, vscode.StatusBarAlignment.Left, PRIORITY - index);
+            item.name = `Command Notes: ${command.label}`;
+            item.text = `$(${command.icon || 'play'}) ${command.statusBarText || command.label}`;
+            item.tooltip = index < 9
+                ? `Run "${command.label}" (Run Pinned Command ${index + 1})\n${command.command}`
+                : `Run "${command.label}"\n${command.command}`;
+            item.color = command.color ? new vscode.ThemeColor(command.color) : undefined;
+            item.command = { command: 'command-notes.executeCommand', title: 'Run', arguments: [command] };
+            item.show();
+            return item;
+        });
+    }
+}
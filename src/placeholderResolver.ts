@@ -0,0 +1,139 @@
+import * as vscode from 'vscode';
+import { CommandItem } from './types';
+import { StorageService } from './storageService';
+
+/**
+ * A placeholder found in a command template, e.g. ${input:pod}
+ */
+export interface Placeholder {
+    kind: 'input' | 'pick' | 'default';
+    name: string;
+    options: string[];
+    defaultValue?: string;
+}
+
+const PLACEHOLDER_PATTERN = /\$\{(input|pick|default):([^}]+)\}/g;
+
+/**
+ * Parse a single placeholder body (the part after the colon)
+ */
+function parseBody(kind: Placeholder['kind'], body: string): Placeholder {
+    if (kind === 'pick') {
+        const [name, options = ''] = body.split('|');
+        return {
+            kind,
+            name: name.trim(),
+            options: options.split(',').map(option => option.trim()).filter(option => option.length > 0)
+        };
+    }
+
+    if (kind === 'default') {
+        const separator = body.indexOf('=');
+        if (separator >= 0) {
+            return {
+                kind,
+                name: body.slice(0, separator).trim(),
+                options: [],
+                defaultValue: body.slice(separator + 1)
+            };
+        }
+    }
+
+    return { kind, name: body.trim(), options: [] };
+}
+
+/**
+ * Find all placeholders in a command, one entry per distinct name
+ */
+export function parsePlaceholders(command: string): Placeholder[] {
+    const placeholders: Placeholder[] = [];
+    for (const match of command.matchAll(PLACEHOLDER_PATTERN)) {
+        const placeholder = parseBody(match[1] as Placeholder['kind'], match[2]);
+        if (!placeholders.some(existing => existing.name === placeholder.name)) {
+            placeholders.push(placeholder);
+        }
+    }
+    return placeholders;
+}
+
+/**
+ * Replace placeholders with the given values
+ */
+export function applyPlaceholders(command: string, values: Record<string, string>): string {
+    return command.replace(PLACEHOLDER_PATTERN, (token, kind: Placeholder['kind'], body: string) => {
+        const { name } = parseBody(kind, body);
+        return name in values ? values[name] : token;
+    });
+}
+
+export class PlaceholderResolver {
+    constructor(private storageService: StorageService) { }
+
+    /**
+     * Prompt for every placeholder in the command and return the resolved text.
+     * Returns undefined if the user cancels any prompt.
+     */
+    async resolve(node: CommandItem): Promise<string | undefined> {
+        const placeholders = parsePlaceholders(node.command);
+        if (placeholders.length === 0) {
+            return node.command;
+        }
+
+        const lastValues = await this.storageService.loadPlaceholderValues(node.id);
+        const values: Record<string, string> = {};
+
+        for (const placeholder of placeholders) {
+            const value = await this.prompt(placeholder, lastValues[placeholder.name]);
+            if (value === undefined) {
+                return undefined;
+            }
+            values[placeholder.name] = value;
+        }
+
+        await this.storageService.savePlaceholderValues(node.id, values);
+        return applyPlaceholders(node.command, values);
+    }
+
+    /**
+     * Fill in placeholders without prompting, with the last used values or else the defaults.
+     * Returns undefined if a placeholder has neither.
+     */
+    async resolveWithoutPrompt(node: CommandItem): Promise<string | undefined> {
+        const placeholders = parsePlaceholders(node.command);
+        if (placeholders.length === 0) {
+            return node.command;
+        }
+
+        const lastValues = await this.storageService.loadPlaceholderValues(node.id);
+        const values: Record<string, string> = {};
+
+        for (const placeholder of placeholders) {
+            const value = lastValues[placeholder.name] ?? placeholder.defaultValue;
+            if (value === undefined) {
+                return undefined;
+            }
+            values[placeholder.name] = value;
+        }
+
+        return applyPlaceholders(node.command, values);
+    }
+
+    private async prompt(placeholder: Placeholder, lastValue: string | undefined): Promise<string | undefined> {
+        if (placeholder.kind === 'pick' && placeholder.options.length > 0) {
+            // Offer the last used value first so that Enter re-runs with it
+            const options = lastValue && placeholder.options.includes(lastValue)
+                ? [lastValue, ...placeholder.options.filter(option => option !== lastValue)]
+                : placeholder.options;
+
+            return vscode.window.showQuickPick(options, {
+                title: `Select ${placeholder.name}`,
+                placeHolder: placeholder.name
+            });
+        }
+
+        return vscode.window.showInputBox({
+            prompt: `Enter value for ${placeholder.name}`,
+            value: lastValue ?? placeholder.defaultValue ?? ''
+        });
+    }
+}
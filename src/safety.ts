@@ -0,0 +1,31 @@
+/**
+ * Find the first danger pattern a command matches. Patterns are regular expressions,
+ * matched case-insensitively; patterns that aren't valid expressions are ignored.
+ */
+export function findDangerPattern(command: string, patterns: string[]): string | undefined {
+    return patterns.find(pattern => {
+        try {
+            return new RegExp(pattern, 'i').test(command);
+        } catch {
+            return false;
+        }
+    });
+}
+
+/**
+ * Get the tags that require typing the command's name to confirm it
+ */
+export function findTypeToConfirmTags(tags: string[], typeToConfirmTags: string[]): string[] {
+    const wanted = typeToConfirmTags.map(tag => tag.toLowerCase());
+    return tags.filter(tag => wanted.includes(tag.toLowerCase()));
+}
+
+/**
+ * Check whether a command has to be confirmed before it runs: it is marked for confirmation,
+ * matches a danger pattern, or has a tag that requires typing its name
+ */
+export function needsConfirmation(commandText: string, confirm: boolean | undefined, tags: string[], dangerPatterns: string[], typeToConfirmTags: string[]): boolean {
+    return !!confirm
+        || findDangerPattern(commandText, dangerPatterns) !== undefined
+        || findTypeToConfirmTags(tags, typeToConfirmTags).length > 0;
+}
@@ -0,0 +1,166 @@
+import { CommandData, TreeNode } from './types';
+
+const NODE_TYPES = ['command', 'group', 'workflow'];
+const WORKFLOW_MODES = ['sequential', 'parallel'];
+const TERMINAL_MODES = ['shared', 'new', 'split', 'background'];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check that a value has the { "commands": [...] } shape, node by node.
+ * Returns one message per problem, each starting with the path of the bad node.
+ */
+export function validateCommandData(value: unknown): string[] {
+    const errors: string[] = [];
+
+    if (!isObject(value) || !Array.isArray(value.commands)) {
+        return ['Expected { "commands": [...] }'];
+    }
+
+    const seenIds = new Set<string>();
+
+    const validateNode = (node: unknown, path: string, insideWorkflow: boolean): void => {
+        if (!isObject(node)) {
+            errors.push(`${path}: must be an object`);
+            return;
+        }
+
+        const where = typeof node.label === 'string' ? `${path} ("${node.label}")` : path;
+        const fail = (message: string) => errors.push(`${where}: ${message}`);
+
+        if (typeof node.id !== 'string' || node.id.length === 0) {
+            fail('"id" must be a non-empty string');
+        } else if (seenIds.has(node.id)) {
+            fail(`"id" ${node.id} is used more than once`);
+        } else {
+            seenIds.add(node.id);
+        }
+
+        if (typeof node.label !== 'string') {
+            fail('"label" must be a string');
+        }
+
+        if (!NODE_TYPES.includes(node.type as string)) {
+            fail(`"type" must be one of ${NODE_TYPES.join(', ')}`);
+            return;
+        }
+
+        if (insideWorkflow && node.type !== 'command') {
+            fail('workflow steps must be commands');
+        }
+
+        if (node.execution !== undefined) {
+            validateExecution(node.execution, fail);
+        }
+
+        if (node.tags !== undefined && (!Array.isArray(node.tags) || node.tags.some(tag => typeof tag !== 'string'))) {
+            fail('"tags" must be an array of strings');
+        }
+        for (const key of ['icon', 'color']) {
+            if (node[key] !== undefined && typeof node[key] !== 'string') {
+                fail(`"${key}" must be a string`);
+            }
+        }
+
+        if (node.type === 'command') {
+            if (typeof node.command !== 'string') {
+                fail('"command" must be a string');
+            }
+            if (node.description !== undefined && typeof node.description !== 'string') {
+                fail('"description" must be a string');
+            }
+            if (node.notes !== undefined && typeof node.notes !== 'string') {
+                fail('"notes" must be a string');
+            }
+            if (node.confirm !== undefined && typeof node.confirm !== 'boolean') {
+                fail('"confirm" must be true or false');
+            }
+            if (node.pinned !== undefined && typeof node.pinned !== 'boolean') {
+                fail('"pinned" must be true or false');
+            }
+            if (node.statusBarText !== undefined && typeof node.statusBarText !== 'string') {
+                fail('"statusBarText" must be a string');
+            }
+            return;
+        }
+
+        if (node.type === 'workflow') {
+            if (!WORKFLOW_MODES.includes(node.mode as string)) {
+                fail(`"mode" must be one of ${WORKFLOW_MODES.join(', ')}`);
+            }
+            if (typeof node.stopOnFailure !== 'boolean') {
+                fail('"stopOnFailure" must be true or false');
+            }
+        }
+
+        if (!Array.isArray(node.children)) {
+            fail('"children" must be an array');
+            return;
+        }
+        node.children.forEach((child, index) => validateNode(child, `${path}.children[${index}]`, node.type === 'workflow'));
+    };
+
+    value.commands.forEach((node, index) => validateNode(node, `commands[${index}]`, false));
+    return errors;
+}
+
+function validateExecution(execution: unknown, fail: (message: string) => void): void {
+    if (!isObject(execution)) {
+        fail('"execution" must be an object');
+        return;
+    }
+
+    for (const key of ['terminalName', 'cwd', 'shellPath']) {
+        if (execution[key] !== undefined && typeof execution[key] !== 'string') {
+            fail(`"execution.${key}" must be a string`);
+        }
+    }
+
+    if (execution.terminalMode !== undefined && !TERMINAL_MODES.includes(execution.terminalMode as string)) {
+        fail(`"execution.terminalMode" must be one of ${TERMINAL_MODES.join(', ')}`);
+    }
+
+    if (execution.env !== undefined && (!isObject(execution.env) || Object.values(execution.env).some(value => typeof value !== 'string'))) {
+        fail('"execution.env" must be an object of strings');
+    }
+}
+
+/**
+ * Thrown when command data doesn't have the expected shape
+ */
+export class CommandDataError extends Error {
+    constructor(public readonly errors: string[]) {
+        super(errors.length === 1 ? errors[0] : `${errors[0]} (and ${errors.length - 1} more problems)`);
+        this.name = 'CommandDataError';
+    }
+}
+
+/**
+ * Parse JSON command data, throwing an error that lists every problem found
+ */
+export function parseCommandData(content: string): TreeNode[] {
+    const value = JSON.parse(content);
+    const errors = validateCommandData(value);
+    if (errors.length > 0) {
+        throw new CommandDataError(errors);
+    }
+    return (value as CommandData).commands;
+}
+
+/**
+ * Parse JSON holding one node, a list of nodes, or a whole { "commands": [...] } file,
+ * as copied with "Copy as JSON"
+ */
+export function parseNodes(content: string): TreeNode[] {
+    const value = JSON.parse(content);
+    const commands = Array.isArray(value) ? value
+        : isObject(value) && Array.isArray(value.commands) ? value.commands
+            : [value];
+    const errors = validateCommandData({ commands });
+    if (errors.length > 0) {
+        throw new CommandDataError(errors);
+    }
+    return commands;
+}
@@ -0,0 +1,104 @@
+import * as vscode from 'vscode';
+
+const SECRET_PATTERN = /\$\{secret:([^}]+)\}/g;
+
+// Secrets are stored under this prefix, so other keys of the extension are never listed as secrets
+const SECRET_KEY_PREFIX = 'commandNotes.secret.';
+
+/**
+ * Names secrets can have, e.g. github-token or AWS_SECRET
+ */
+export const SECRET_NAME_PATTERN = /^[\w.-]+$/;
+
+/**
+ * Find the names of all ${secret:NAME} placeholders in a command, once each
+ */
+export function parseSecretNames(command: string): string[] {
+    const names: string[] = [];
+    for (const match of command.matchAll(SECRET_PATTERN)) {
+        const name = match[1].trim();
+        if (!names.includes(name)) {
+            names.push(name);
+        }
+    }
+    return names;
+}
+
+/**
+ * Replace secret placeholders with the given values, leaving unknown ones untouched
+ */
+export function applySecrets(command: string, values: Record<string, string>): string {
+    return command.replace(SECRET_PATTERN, (token, name: string) => values[name.trim()] ?? token);
+}
+
+/**
+ * Keeps named secrets in VS Code's secret storage and fills them into commands.
+ * Commands only ever hold the ${secret:NAME} placeholder, so values stay out of the tree,
+ * history and exports.
+ */
+export class SecretResolver {
+    constructor(private secrets: vscode.SecretStorage) { }
+
+    /**
+     * Get the names of all stored secrets, sorted
+     */
+    async getNames(): Promise<string[]> {
+        const keys = await this.secrets.keys();
+        return keys
+            .filter(key => key.startsWith(SECRET_KEY_PREFIX))
+            .map(key => key.slice(SECRET_KEY_PREFIX.length))
+            .sort((a, b) => a.localeCompare(b));
+    }
+
+    async get(name: string): Promise<string | undefined> {
+        return this.secrets.get(SECRET_KEY_PREFIX + name);
+    }
+
+    async set(name: string, value: string): Promise<void> {
+        await this.secrets.store(SECRET_KEY_PREFIX + name, value);
+    }
+
+    async delete(name: string): Promise<void> {
+        await this.secrets.delete(SECRET_KEY_PREFIX + name);
+    }
+
+    /**
+     * Fill in the secrets used by a command, asking for those that haven't been set yet.
+     * Returns undefined if the user cancels.
+     */
+    async resolve(command: string): Promise<string | undefined> {
+        const names = parseSecretNames(command);
+        if (names.length === 0) {
+            return command;
+        }
+
+        const values: Record<string, string> = {};
+        for (const name of names) {
+            const value = await this.get(name) ?? await this.promptForValue(name);
+            if (value === undefined) {
+                return undefined;
+            }
+            values[name] = value;
+        }
+        return applySecrets(command, values);
+    }
+
+    /**
+     * Ask for the value of a secret without showing it, and store it.
+     * Returns undefined if the user cancels.
+     */
+    async promptForValue(name: string, exists = false): Promise<string | undefined> {
+        const value = await vscode.window.showInputBox({
+            title: exists ? `Change Secret "${name}"` : `Set Secret "${name}"`,
+            prompt: `Value of \${secret:${name}}, kept in VS Code's secret storage`,
+            password: true,
+            ignoreFocusOut: true
+        });
+        if (value === undefined) {
+            return undefined;
+        }
+
+        await this.set(name, value);
+        return value;
+    }
+}
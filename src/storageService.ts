@@ -1,11 +1,21 @@
 import * as vscode from 'vscode';
-import { CommandData, TreeNode, CommandItem, CommandGroup, isCommandGroup } from './types';
+import { CommandData, TreeNode, ContainerNode, HistoryEntry, DeletedNode, isContainer } from './types';
 
 const STORAGE_KEY = 'commandNotes.data';
+const PLACEHOLDER_VALUES_KEY = 'commandNotes.placeholderValues';
+const HISTORY_KEY = 'commandNotes.history';
+const TRASH_KEY = 'commandNotes.trash';
 
 export class StorageService {
     constructor(private context: vscode.ExtensionContext) { }
 
+    /**
+     * Turn syncing the commands in global storage with Settings Sync on or off
+     */
+    setSyncEnabled(enabled: boolean): void {
+        this.context.globalState.setKeysForSync(enabled ? [STORAGE_KEY] : []);
+    }
+
     /**
      * Load commands from global storage
      */
@@ -22,6 +32,51 @@ export class StorageService {
         await this.context.globalState.update(STORAGE_KEY, data);
     }
 
+    /**
+     * Load the last used placeholder values for a command
+     */
+    async loadPlaceholderValues(commandId: string): Promise<Record<string, string>> {
+        const values = this.context.globalState.get<Record<string, Record<string, string>>>(PLACEHOLDER_VALUES_KEY);
+        return values?.[commandId] || {};
+    }
+
+    /**
+     * Remember the placeholder values used for a command
+     */
+    async savePlaceholderValues(commandId: string, commandValues: Record<string, string>): Promise<void> {
+        const values = this.context.globalState.get<Record<string, Record<string, string>>>(PLACEHOLDER_VALUES_KEY) || {};
+        values[commandId] = { ...values[commandId], ...commandValues };
+        await this.context.globalState.update(PLACEHOLDER_VALUES_KEY, values);
+    }
+
+    /**
+     * Load run history from global storage, newest first
+     */
+    async loadHistory(): Promise<HistoryEntry[]> {
+        return this.context.globalState.get<HistoryEntry[]>(HISTORY_KEY) || [];
+    }
+
+    /**
+     * Save run history to global storage
+     */
+    async saveHistory(entries: HistoryEntry[]): Promise<void> {
+        await this.context.globalState.update(HISTORY_KEY, entries);
+    }
+
+    /**
+     * Load recently deleted nodes from global storage
+     */
+    async loadTrash(): Promise<DeletedNode[]> {
+        return this.context.globalState.get<DeletedNode[]>(TRASH_KEY) || [];
+    }
+
+    /**
+     * Save recently deleted nodes to global storage
+     */
+    async saveTrash(entries: DeletedNode[]): Promise<void> {
+        await this.context.globalState.update(TRASH_KEY, entries);
+    }
+
     /**
      * Generate a unique ID for new items
      */
@@ -29,6 +84,17 @@ export class StorageService {
         return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
     }
 
+    /**
+     * Deep-copy a node, giving it and all its descendants new IDs
+     */
+    cloneWithNewIds(node: TreeNode): TreeNode {
+        const copy = { ...structuredClone(node), id: this.generateId() };
+        if (isContainer(copy)) {
+            copy.children = copy.children.map(child => this.cloneWithNewIds(child));
+        }
+        return copy;
+    }
+
     /**
      * Find a node by ID in the tree
      */
@@ -37,7 +103,7 @@ export class StorageService {
             if (node.id === id) {
                 return node;
             }
-            if (isCommandGroup(node)) {
+            if (isContainer(node)) {
                 const found = this.findNodeById(node.children, id);
                 if (found) {
                     return found;
@@ -50,12 +116,12 @@ export class StorageService {
     /**
      * Find the parent group of a node
      */
-    findParent(nodes: TreeNode[], targetId: string, parent: CommandGroup | null = null): CommandGroup | null {
+    findParent(nodes: TreeNode[], targetId: string, parent: ContainerNode | null = null): ContainerNode | null {
         for (const node of nodes) {
             if (node.id === targetId) {
                 return parent;
             }
-            if (isCommandGroup(node)) {
+            if (isContainer(node)) {
                 const found = this.findParent(node.children, targetId, node);
                 if (found !== null) {
                     return found;
@@ -73,7 +139,7 @@ export class StorageService {
             if (node.id === id) {
                 return false;
             }
-            if (isCommandGroup(node)) {
+            if (isContainer(node)) {
                 node.children = this.deleteNode(node.children, id);
             }
             return true;
@@ -83,23 +149,24 @@ export class StorageService {
     /**
      * Update a node in the tree
      */
-    updateNode(nodes: TreeNode[], id: string, updates: Partial<CommandItem | CommandGroup>): TreeNode[] {
+    updateNode(nodes: TreeNode[], id: string, updates: Partial<TreeNode>): TreeNode[] {
         return nodes.map(node => {
             if (node.id === id) {
                 return { ...node, ...updates } as TreeNode;
             }
-            if (isCommandGroup(node)) {
+            if (isContainer(node)) {
                 return {
                     ...node,
                     children: this.updateNode(node.children, id, updates)
-                } as CommandGroup;
+                } as ContainerNode;
             }
             return node;
         });
     }
 
     /**
-     * Move a node within the tree (for drag-and-drop)
+     * Move a node within the tree (for drag-and-drop).
+     * Returns the tree unchanged if the node would end up inside itself or the target is missing.
      */
     moveNode(nodes: TreeNode[], sourceId: string, targetId: string, position: 'before' | 'after' | 'inside'): TreeNode[] {
         // Find the source node
@@ -108,8 +175,17 @@ export class StorageService {
             return nodes;
         }
 
-        // Remove source node from tree
-        let newNodes = this.deleteNode(nodes, sourceId);
+        // A node can't be moved next to or into itself, or into one of its own descendants
+        if (this.findNodeById([sourceNode], targetId)) {
+            return nodes;
+        }
+
+        // Remove source node from tree, leaving the original alone in case the target is missing
+        let newNodes = this.deleteNode(structuredClone(nodes), sourceId);
+        const target = this.findNodeById(newNodes, targetId);
+        if (!target || (position === 'inside' && !isContainer(target))) {
+            return nodes;
+        }
 
         // Find target and insert source
         if (position === 'inside') {
@@ -125,13 +201,13 @@ export class StorageService {
 
     private insertIntoGroup(nodes: TreeNode[], groupId: string, nodeToInsert: TreeNode): TreeNode[] {
         return nodes.map(node => {
-            if (node.id === groupId && isCommandGroup(node)) {
+            if (node.id === groupId && isContainer(node)) {
                 return {
                     ...node,
                     children: [...node.children, nodeToInsert]
                 };
             }
-            if (isCommandGroup(node)) {
+            if (isContainer(node)) {
                 return {
                     ...node,
                     children: this.insertIntoGroup(node.children, groupId, nodeToInsert)
@@ -152,7 +228,7 @@ export class StorageService {
                     result.push(node, nodeToInsert);
                 }
             } else {
-                if (isCommandGroup(node)) {
+                if (isContainer(node)) {
                     result.push({
                         ...node,
                         children: this.insertNearNode(node.children, targetId, nodeToInsert, position)
@@ -0,0 +1,74 @@
+import * as vscode from 'vscode';
+import { CommandTreeItem, CommandTreeProvider } from './commandTreeProvider';
+import { CommandItem } from './types';
+
+/**
+ * A tag at the root of the Tags view
+ */
+export interface TagNode {
+    type: 'tag';
+    tag: string;
+}
+
+/**
+ * A command shown under one of its tags. It is a copy of the command, because the same
+ * command can appear under several tags, so it works with every command handler.
+ */
+export type TaggedCommand = CommandItem & { viewTag: string };
+
+export type TagTreeElement = TagNode | TaggedCommand;
+
+/**
+ * Groups the commands of the Command Notes tree by tag, wherever they are in the tree.
+ * Commands inherit the tags of the groups containing them.
+ */
+export class TagTreeProvider implements vscode.TreeDataProvider<TagTreeElement>, vscode.Disposable {
+    private _onDidChangeTreeData = new vscode.EventEmitter<TagTreeElement | undefined | null | void>();
+    readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    private listener: vscode.Disposable;
+
+    constructor(private treeProvider: CommandTreeProvider) {
+        this.listener = treeProvider.onDidChangeTreeData(() => this._onDidChangeTreeData.fire());
+    }
+
+    getTreeItem(element: TagTreeElement): vscode.TreeItem {
+        if (element.type === 'tag') {
+            const item = new vscode.TreeItem(element.tag, vscode.TreeItemCollapsibleState.Collapsed);
+            item.id = `tag:${element.tag}`;
+            item.description = `${this.getCommands(element.tag).length}`;
+            item.iconPath = new vscode.ThemeIcon('tag');
+            item.contextValue = 'commandTag';
+            return item;
+        }
+
+        const item = new CommandTreeItem(element, vscode.TreeItemCollapsibleState.None);
+        item.id = `tag:${element.viewTag}/${element.id}`;
+        const path = this.treeProvider.getGroupPath(element);
+        if (path.length > 0) {
+            item.description = path.join(' / ');
+        }
+        return item;
+    }
+
+    getChildren(element?: TagTreeElement): TagTreeElement[] {
+        if (!element) {
+            return this.treeProvider.getAllTags().map(tag => ({ type: 'tag', tag }));
+        }
+
+        if (element.type === 'tag') {
+            return this.getCommands(element.tag).map(command => ({ ...command, viewTag: element.tag }));
+        }
+
+        return [];
+    }
+
+    dispose(): void {
+        this.listener.dispose();
+        this._onDidChangeTreeData.dispose();
+    }
+
+    private getCommands(tag: string): CommandItem[] {
+        return this.treeProvider.getAllCommands().filter(command => this.treeProvider.getTags(command).includes(tag));
+    }
+}
@@ -0,0 +1,134 @@
+import * as vscode from 'vscode';
+import { ExecutionSettings } from './types';
+
+export const DEFAULT_TERMINAL_NAME = 'Command Notes';
+
+/**
+ * A command sent to a terminal
+ */
+export interface TerminalRun {
+    terminal: vscode.Terminal;
+    cwd?: string;
+
+    /**
+     * Resolves when the command finishes, or with undefined right away
+     * if shell integration can't report the exit code
+     */
+    exitCode: Promise<number | undefined>;
+}
+
+export class TerminalManager implements vscode.Disposable {
+    private terminals = new Map<string, vscode.Terminal>();
+    private terminalsWithoutShellIntegration = new WeakSet<vscode.Terminal>();
+    private closeListener: vscode.Disposable;
+
+    constructor() {
+        this.closeListener = vscode.window.onDidCloseTerminal(closed => {
+            for (const [name, terminal] of this.terminals) {
+                if (terminal === closed) {
+                    this.terminals.delete(name);
+                }
+            }
+        });
+    }
+
+    /**
+     * Get the terminal a command should run in, creating it if needed.
+     * cwd, env and shellPath only apply when a terminal is created.
+     */
+    getTerminal(settings: ExecutionSettings): vscode.Terminal {
+        const name = settings.terminalName || DEFAULT_TERMINAL_NAME;
+        const options: vscode.TerminalOptions = {
+            name,
+            cwd: settings.cwd,
+            env: settings.env && Object.keys(settings.env).length > 0 ? settings.env : undefined,
+            shellPath: settings.shellPath
+        };
+
+        if (settings.terminalMode === 'new') {
+            return vscode.window.createTerminal(options);
+        }
+
+        if (settings.terminalMode === 'split') {
+            const parentTerminal = vscode.window.activeTerminal || this.terminals.get(name);
+            return vscode.window.createTerminal({
+                ...options,
+                location: parentTerminal ? { parentTerminal } : undefined
+            });
+        }
+
+        // Reuse the terminal with the same name unless it was closed
+        const existing = this.terminals.get(name);
+        if (existing && existing.exitStatus === undefined) {
+            return existing;
+        }
+
+        const terminal = vscode.window.createTerminal(options);
+        this.terminals.set(name, terminal);
+        return terminal;
+    }
+
+    /**
+     * Show the terminal for the given settings and run a command in it
+     */
+    async run(settings: ExecutionSettings, commandText: string): Promise<TerminalRun> {
+        const terminal = this.getTerminal(settings);
+        terminal.show();
+
+        const shellIntegration = terminal.shellIntegration || await this.waitForShellIntegration(terminal);
+        if (!shellIntegration) {
+            terminal.sendText(commandText);
+            return { terminal, cwd: settings.cwd, exitCode: Promise.resolve(undefined) };
+        }
+
+        const execution = shellIntegration.executeCommand(commandText);
+        const exitCode = new Promise<number | undefined>(resolve => {
+            const listeners = [
+                vscode.window.onDidEndTerminalShellExecution(event => {
+                    if (event.execution === execution) {
+                        listeners.forEach(listener => listener.dispose());
+                        resolve(event.exitCode);
+                    }
+                }),
+                vscode.window.onDidCloseTerminal(closed => {
+                    if (closed === terminal) {
+                        listeners.forEach(listener => listener.dispose());
+                        resolve(undefined);
+                    }
+                })
+            ];
+        });
+
+        return { terminal, cwd: settings.cwd || shellIntegration.cwd?.fsPath, exitCode };
+    }
+
+    dispose(): void {
+        this.closeListener.dispose();
+        this.terminals.forEach(terminal => terminal.dispose());
+        this.terminals.clear();
+    }
+
+    private waitForShellIntegration(terminal: vscode.Terminal): Promise<vscode.TerminalShellIntegration | undefined> {
+        // Only wait once per terminal, if it didn't show up then it won't
+        const timeoutMs = vscode.workspace.getConfiguration('commandNotes').get<number>('shellIntegrationTimeout', 1000);
+        if (timeoutMs <= 0 || this.terminalsWithoutShellIntegration.has(terminal)) {
+            return Promise.resolve(undefined);
+        }
+
+        return new Promise(resolve => {
+            const timeout = setTimeout(() => {
+                listener.dispose();
+                this.terminalsWithoutShellIntegration.add(terminal);
+                resolve(undefined);
+            }, timeoutMs);
+
+            const listener = vscode.window.onDidChangeTerminalShellIntegration(event => {
+                if (event.terminal === terminal) {
+                    clearTimeout(timeout);
+                    listener.dispose();
+                    resolve(event.shellIntegration);
+                }
+            });
+        });
+    }
+}
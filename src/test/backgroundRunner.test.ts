@@ -0,0 +1,35 @@
+import * as assert from 'assert';
+import { BackgroundRunner } from '../backgroundRunner';
+
+suite('BackgroundRunner Test Suite', () => {
+	let runner: BackgroundRunner;
+
+	setup(() => {
+		runner = new BackgroundRunner();
+	});
+
+	teardown(() => {
+		runner.dispose();
+	});
+
+	test('resolves with the exit code', async () => {
+		assert.strictEqual(await runner.run('pass', 'exit 0', 'exit 0', {}).exitCode, 0);
+		assert.strictEqual(await runner.run('fail', 'exit 3', 'exit 3', {}).exitCode, 3);
+	});
+
+	test('does not wait for input', async () => {
+		assert.strictEqual(await runner.run('read', 'cat', 'cat', {}).exitCode, 0);
+	});
+
+	test('resolves without an exit code when stopped', async () => {
+		const run = runner.run('sleep', 'sleep 10', 'sleep 10', {});
+		runner.dispose();
+		assert.strictEqual(await run.exitCode, undefined);
+	});
+
+	test('resolves without an exit code when the working directory is missing', async () => {
+		const run = runner.run('missing', 'ls', 'ls', { cwd: '/command-notes/missing' });
+		assert.strictEqual(run.cwd, '/command-notes/missing');
+		assert.strictEqual(await run.exitCode, undefined);
+	});
+});
@@ -0,0 +1,45 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { CommandTaskProvider } from '../commandTaskProvider';
+import { CommandTreeProvider } from '../commandTreeProvider';
+import { PlaceholderResolver } from '../placeholderResolver';
+import { StorageService } from '../storageService';
+import { createContext, createSource } from './fixtures';
+
+suite('CommandTaskProvider Test Suite', () => {
+	const folder = vscode.Uri.file(path.resolve('/work/app'));
+	let taskProvider: CommandTaskProvider;
+
+	setup(async () => {
+		const storageService = new StorageService(createContext());
+		const treeProvider = new CommandTreeProvider(storageService);
+		await treeProvider.setSources([
+			createSource([
+				{ id: 'p', type: 'group', label: 'Docker', children: [{ id: 'up', type: 'command', label: 'Up', command: 'docker compose up' }] }
+			]),
+			createSource([
+				{ id: 'd', type: 'group', label: 'Docker', children: [{ id: 'up2', type: 'command', label: 'Up', command: 'docker compose up' }] },
+				{ id: 'web', type: 'command', label: 'Web', command: 'npm start', execution: { cwd: 'web' } },
+				{ id: 'api', type: 'command', label: 'API', command: 'npm start', execution: { cwd: '${workspaceFolder}/api' } }
+			], 'workspace:app', 'app', folder)
+		]);
+		taskProvider = new CommandTaskProvider(treeProvider, new PlaceholderResolver(storageService));
+	});
+
+	const findTask = (tasks: vscode.Task[], id: string) => tasks.find(task => task.definition.id === id)!;
+
+	test('names tasks without their section and numbers duplicates', async () => {
+		const tasks = await taskProvider.provideTasks();
+		assert.strictEqual(findTask(tasks, 'up').name, 'Docker / Up');
+		assert.strictEqual(findTask(tasks, 'up2').name, 'Docker / Up (2)');
+	});
+
+	test('runs relative working directories from the folder of their section', async () => {
+		const tasks = await taskProvider.provideTasks();
+		const cwd = (id: string) => (findTask(tasks, id).execution as vscode.ShellExecution).options?.cwd;
+
+		assert.strictEqual(cwd('web'), path.join(folder.fsPath, 'web'));
+		assert.strictEqual(cwd('api'), '${workspaceFolder}/api');
+	});
+});
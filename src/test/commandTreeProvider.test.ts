@@ -0,0 +1,126 @@
+import * as assert from 'assert';
+import { CommandTreeProvider } from '../commandTreeProvider';
+import { StorageService } from '../storageService';
+import { TreeNode } from '../types';
+import { createContext, createSource, createTree, ids } from './fixtures';
+
+suite('CommandTreeProvider Test Suite', () => {
+	let treeProvider: CommandTreeProvider;
+
+	setup(async () => {
+		treeProvider = new CommandTreeProvider(new StorageService(createContext()));
+		await treeProvider.setSources([createSource(createTree())]);
+	});
+
+	test('sorts selected nodes in tree order and drops nested ones', () => {
+		const node = (id: string) => treeProvider.findNodeById(id)!;
+		assert.deepStrictEqual(treeProvider.getOutermost([node('c'), node('d'), node('g'), node('a')]).map(node => node.id), ['a', 'g', 'd']);
+		assert.deepStrictEqual(treeProvider.getOutermost([node('h'), node('b')]).map(node => node.id), ['b', 'h']);
+	});
+
+	test('moves neighbouring nodes up and down as a block', async () => {
+		await treeProvider.moveUp(['c', 'h']);
+		assert.deepStrictEqual(ids(treeProvider.getData()), ['a', 'g', 'g/c', 'g/h', 'g/b', 'd']);
+
+		await treeProvider.moveDown(['a']);
+		assert.deepStrictEqual(ids(treeProvider.getData()), ['g', 'g/c', 'g/h', 'g/b', 'a', 'd']);
+	});
+
+	test('leaves nodes already at the edge in place', async () => {
+		await treeProvider.moveUp(['a', 'b']);
+		await treeProvider.moveDown(['d', 'h']);
+		assert.deepStrictEqual(ids(treeProvider.getData()), ['a', 'g', 'g/b', 'g/c', 'g/h', 'd']);
+	});
+
+	test('groups nodes where the first of them was', async () => {
+		const node = (id: string) => treeProvider.findNodeById(id)!;
+		const groupId = await treeProvider.groupNodes([node('d'), node('b')], 'new');
+
+		assert.deepStrictEqual(ids(treeProvider.getData()), ['a', 'g', `g/${groupId}`, `g/${groupId}/b`, `g/${groupId}/d`, 'g/c', 'g/h']);
+	});
+
+	test('groups a group once with its selected children', async () => {
+		const node = (id: string) => treeProvider.findNodeById(id)!;
+		const groupId = await treeProvider.groupNodes([node('b'), node('g')], 'new');
+
+		assert.deepStrictEqual(ids(treeProvider.getData()), ['a', groupId!, `${groupId}/g`, `${groupId}/g/b`, `${groupId}/g/c`, `${groupId}/g/h`, 'd']);
+	});
+
+	const getTrash = async (): Promise<TreeNode[]> => {
+		const trash = (await treeProvider.getChildren()).find(node => node.id === 'commandNotes.trash');
+		return trash ? treeProvider.getChildren(trash) : [];
+	};
+
+	test('undoes and redoes edits in order', async () => {
+		await treeProvider.updateNode('a', { label: 'renamed' });
+		await treeProvider.deleteNode('d');
+
+		assert.strictEqual(await treeProvider.undo(), true);
+		assert.deepStrictEqual(ids(treeProvider.getData()), ['a', 'g', 'g/b', 'g/c', 'g/h', 'd']);
+		assert.strictEqual(treeProvider.findNodeById('a')!.label, 'renamed');
+
+		assert.strictEqual(await treeProvider.undo(), true);
+		assert.strictEqual(treeProvider.findNodeById('a')!.label, 'a');
+		assert.strictEqual(await treeProvider.undo(), false);
+
+		assert.strictEqual(await treeProvider.redo(), true);
+		assert.strictEqual(await treeProvider.redo(), true);
+		assert.strictEqual(treeProvider.findNodeById('a')!.label, 'renamed');
+		assert.deepStrictEqual(ids(treeProvider.getData()), ['a', 'g', 'g/b', 'g/c', 'g/h']);
+		assert.strictEqual(await treeProvider.redo(), false);
+	});
+
+	test('forgets undone edits after a new edit', async () => {
+		await treeProvider.updateNode('a', { label: 'renamed' });
+		await treeProvider.undo();
+		await treeProvider.updateNode('b', { label: 'other' });
+
+		assert.strictEqual(await treeProvider.redo(), false);
+		assert.strictEqual(treeProvider.findNodeById('a')!.label, 'a');
+	});
+
+	test('restores a deleted node to its group', async () => {
+		await treeProvider.deleteNode('c');
+		const [deleted] = await getTrash();
+
+		assert.strictEqual(await treeProvider.restoreNode(deleted), true);
+		assert.deepStrictEqual(ids(treeProvider.getData()), ['a', 'g', 'g/b', 'g/c', 'g/h', 'd']);
+		assert.deepStrictEqual(await getTrash(), []);
+	});
+
+	test('restores a deleted node to the top level when its group is gone', async () => {
+		await treeProvider.deleteNode('b');
+		await treeProvider.deleteNode('g');
+		const deleted = (await getTrash()).find(node => node.id === 'b')!;
+
+		assert.strictEqual(await treeProvider.restoreNode(deleted), false);
+		assert.deepStrictEqual(ids(treeProvider.getData()), ['b', 'a', 'd']);
+	});
+
+	test('drops deleted nodes older than the retention period', async () => {
+		const day = 24 * 60 * 60 * 1000;
+		treeProvider = new CommandTreeProvider(new StorageService(createContext({
+			'commandNotes.trash': [
+				{ node: { id: 'old', type: 'command', label: 'old', command: 'old' }, index: 0, deletedAt: Date.now() - 31 * day },
+				{ node: { id: 'new', type: 'command', label: 'new', command: 'new' }, index: 0, deletedAt: Date.now() - day }
+			]
+		})));
+		await treeProvider.setSources([createSource(createTree())]);
+
+		assert.deepStrictEqual((await getTrash()).map(node => node.id), ['new']);
+	});
+
+	test('only writes the sources an undo changes', async () => {
+		const personal = createSource(createTree());
+		const workspace = createSource([{ id: 'w', type: 'command', label: 'w', command: 'w' }], 'workspace:app', 'app');
+		await treeProvider.setSources([personal, workspace]);
+
+		await treeProvider.updateNode('w', { label: 'renamed' });
+		assert.strictEqual(personal.saved, undefined);
+
+		workspace.saved = undefined;
+		await treeProvider.undo();
+		assert.strictEqual(personal.saved, undefined);
+		assert.deepStrictEqual(workspace.saved, [{ id: 'w', type: 'command', label: 'w', command: 'w' }]);
+	});
+});
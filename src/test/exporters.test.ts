@@ -0,0 +1,106 @@
+import * as assert from 'assert';
+import { toBashOneLiner, toCodeBlock, toMarkdown, toShellScript, toTasks } from '../exporters';
+import { TreeNode } from '../types';
+
+const nodes: TreeNode[] = [
+	{ id: '1', type: 'command', label: 'List files', command: 'ls -la', description: 'Show everything' },
+	{ id: '2', type: 'group', label: 'Docker', children: [
+		{ id: '3', type: 'command', label: 'Start', command: 'docker compose up -d' },
+		{ id: '4', type: 'command', label: 'start', command: "echo 'again'" }
+	] }
+];
+
+suite('Exporters Test Suite', () => {
+	test('renders groups as headings', () => {
+		assert.strictEqual(toMarkdown(nodes, 'Notes'), [
+			'# Notes', '',
+			'**List files**', '',
+			'Show everything', '',
+			'```sh', 'ls -la', '```', '',
+			'## Docker', '',
+			'**Start**', '',
+			'```sh', 'docker compose up -d', '```', '',
+			'**start**', '',
+			'```sh', "echo 'again'", '```', ''
+		].join('\n'));
+	});
+
+	test('renders workflow steps in a code block', () => {
+		const markdown = toMarkdown([{ id: '1', type: 'workflow', label: 'Release', mode: 'sequential', stopOnFailure: true, children: [
+			{ id: '2', type: 'command', label: 'tag', command: 'git tag v`date +%Y`' },
+			{ id: '3', type: 'command', label: 'push', command: 'git push \\\n  --tags' }
+		] }], 'Notes');
+
+		assert.ok(markdown.includes('Workflow, run in order:\n\n```sh\ngit tag v`date +%Y`\ngit push \\\n  --tags\n```\n'));
+	});
+
+	test('renders unique, quoted aliases', () => {
+		const script = toShellScript(nodes, 'aliases');
+		assert.ok(script.includes("alias list_files='ls -la'"));
+		assert.ok(script.includes("alias start='docker compose up -d'"));
+		assert.ok(script.includes("alias start_2='echo '\\''again'\\'''"));
+	});
+
+	test('turns placeholders into function arguments', () => {
+		const script = toShellScript([
+			{ id: '1', type: 'command', label: 'Logs', command: 'kubectl logs ${input:pod} -n ${default:namespace=default} | grep ${input:pod}' },
+			{ id: '2', type: 'command', label: 'Token', command: 'curl -H "Authorization: ${secret:github-token}" https://api.github.com' }
+		], 'functions');
+
+		assert.ok(script.includes([
+			'# Usage: logs <pod> <namespace>',
+			'logs() {',
+			'    kubectl logs ${1} -n ${2:-default} | grep ${1}',
+			'}'
+		].join('\n')));
+		assert.ok(script.includes('# Left out "Token", it uses secrets'));
+		assert.ok(!script.includes('secret:'));
+	});
+
+	test('leaves out aliases with placeholders', () => {
+		const script = toShellScript([{ id: '1', type: 'command', label: 'Logs', command: 'kubectl logs ${input:pod}' }], 'aliases');
+		assert.ok(script.includes('# Left out "Logs"'));
+		assert.ok(!script.includes('alias logs'));
+	});
+
+	test('keeps functions named after a command from calling themselves', () => {
+		const script = toShellScript([{ id: '1', type: 'command', label: 'cd', command: 'cd ~/projects && ls\necho done; cd -' }], 'functions');
+		assert.ok(script.includes('cd() {\n    command cd ~/projects && ls\n    echo done; command cd -\n}'));
+	});
+
+	test('names tasks after their group path', () => {
+		const tasks = JSON.parse(toTasks(nodes)) as { tasks: { label: string }[] };
+		assert.deepStrictEqual(tasks.tasks.map(task => task.label), ['List files', 'Docker / Start', 'Docker / start']);
+	});
+
+	test('turns placeholders into task inputs and leaves out secrets', () => {
+		const content = toTasks([
+			{ id: '1', type: 'command', label: 'Logs', command: 'kubectl logs ${input:pod} -n ${pick:env|dev,prod} --tail ${default:lines=100}' },
+			{ id: '2', type: 'command', label: 'Exec', command: 'kubectl exec ${input:pod} -- sh' },
+			{ id: '3', type: 'command', label: 'Token', command: 'gh auth login --with-token ${secret:github-token}' }
+		]);
+		const [comment, ...json] = content.split('\n');
+		const tasks = JSON.parse(json.join('\n'));
+
+		assert.strictEqual(comment, '// Left out "Token", it uses secrets');
+		assert.deepStrictEqual(tasks.tasks.map((task: { command: string }) => task.command), [
+			'kubectl logs ${input:pod} -n ${input:env} --tail ${input:lines}',
+			'kubectl exec ${input:pod} -- sh'
+		]);
+		assert.deepStrictEqual(tasks.inputs, [
+			{ id: 'pod', type: 'promptString', description: 'pod' },
+			{ id: 'env', type: 'pickString', description: 'env', options: ['dev', 'prod'] },
+			{ id: 'lines', type: 'promptString', description: 'lines', default: '100' }
+		]);
+	});
+
+	test('copies commands as a code block', () => {
+		assert.strictEqual(toCodeBlock(['ls', 'pwd']), '```sh\nls\npwd\n```');
+		assert.strictEqual(toCodeBlock(['echo "```"']), '````sh\necho "```"\n````');
+	});
+
+	test('copies commands as a bash -c one-liner', () => {
+		assert.strictEqual(toBashOneLiner(["echo 'hi'"]), "bash -c 'echo '\\''hi'\\'''");
+		assert.strictEqual(toBashOneLiner(['cd /tmp', "echo 'done'"]), "bash -c $'cd /tmp\\necho \\'done\\''");
+	});
+});
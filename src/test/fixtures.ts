@@ -0,0 +1,56 @@
+import * as vscode from 'vscode';
+import { CommandSource } from '../commandSource';
+import { TreeNode } from '../types';
+
+/**
+ * A small tree with commands at the top level, in a group and around an empty subgroup
+ */
+export const createTree = (): TreeNode[] => [
+	{ id: 'a', type: 'command', label: 'a', command: 'a' },
+	{ id: 'g', type: 'group', label: 'g', children: [
+		{ id: 'b', type: 'command', label: 'b', command: 'b' },
+		{ id: 'c', type: 'command', label: 'c', command: 'c' },
+		{ id: 'h', type: 'group', label: 'h', children: [] }
+	] },
+	{ id: 'd', type: 'command', label: 'd', command: 'd' }
+];
+
+/**
+ * List the ids of a tree with their group path, e.g. g/b for b inside g
+ */
+export const ids = (nodes: TreeNode[]): string[] => nodes.flatMap(node => 'children' in node ? [node.id, ...ids(node.children).map(id => `${node.id}/${id}`)] : [node.id]);
+
+/**
+ * A source keeping its commands in memory, and the nodes it was last saved with
+ */
+export const createSource = (nodes: TreeNode[], id = 'global', label = 'Personal', folder?: vscode.Uri): CommandSource & { saved?: TreeNode[] } => {
+	const source: CommandSource & { saved?: TreeNode[] } = {
+		id,
+		label,
+		iconId: 'account',
+		folder,
+		onDidChange: new vscode.EventEmitter<void>().event,
+		load: async () => nodes,
+		save: async saved => {
+			source.saved = saved;
+		},
+		dispose: () => { }
+	};
+	return source;
+};
+
+/**
+ * An extension context whose global state is kept in memory, starting with the given values
+ */
+export const createContext = (values: Record<string, unknown> = {}): vscode.ExtensionContext => {
+	const state = new Map<string, unknown>(Object.entries(values));
+	return {
+		globalState: {
+			get: (key: string) => state.get(key),
+			update: async (key: string, value: unknown) => {
+				state.set(key, value);
+			},
+			setKeysForSync: () => { }
+		}
+	} as unknown as vscode.ExtensionContext;
+};
@@ -0,0 +1,172 @@
+import * as assert from 'assert';
+import { CommandDataError, parseNodes, validateCommandData } from '../schema';
+import { countNodes, diffTrees, mergeByNodeId, planMerge } from '../merge';
+import { TreeNode } from '../types';
+
+suite('Import Test Suite', () => {
+	test('points to the exact bad node', () => {
+		const errors = validateCommandData({
+			commands: [
+				{ id: '1', type: 'command', label: 'ok', command: 'ls' },
+				{ id: '2', type: 'group', label: 'Docker', children: [{ id: '3', type: 'command', label: 'up' }] }
+			]
+		});
+
+		assert.deepStrictEqual(errors, ['commands[1].children[0] ("up"): "command" must be a string']);
+	});
+
+	test('rejects files without a commands array', () => {
+		assert.deepStrictEqual(validateCommandData({ items: [] }), ['Expected { "commands": [...] }']);
+	});
+
+	test('checks tags, icons and colors', () => {
+		const errors = validateCommandData({
+			commands: [
+				{ id: '1', type: 'command', label: 'deploy', command: 'make deploy', tags: ['production'], icon: 'rocket', color: 'charts.red' },
+				{ id: '2', type: 'group', label: 'Docker', tags: 'docker', icon: 3, children: [] }
+			]
+		});
+
+		assert.deepStrictEqual(errors, [
+			'commands[1] ("Docker"): "tags" must be an array of strings',
+			'commands[1] ("Docker"): "icon" must be a string'
+		]);
+	});
+
+	test('checks pinned commands', () => {
+		const errors = validateCommandData({
+			commands: [
+				{ id: '1', type: 'command', label: 'build', command: 'make', pinned: true, statusBarText: 'Build' },
+				{ id: '2', type: 'command', label: 'test', command: 'make test', pinned: 'yes', statusBarText: 1 }
+			]
+		});
+
+		assert.deepStrictEqual(errors, [
+			'commands[1] ("test"): "pinned" must be true or false',
+			'commands[1] ("test"): "statusBarText" must be a string'
+		]);
+	});
+
+	test('merges by id and command text', () => {
+		const existing: TreeNode[] = [
+			{ id: 'a', type: 'command', label: 'list', command: 'ls' },
+			{ id: 'g', type: 'group', label: 'Git', children: [{ id: 'b', type: 'command', label: 'status', command: 'git status' }] }
+		];
+		const incoming: TreeNode[] = [
+			{ id: 'a', type: 'command', label: 'list all', command: 'ls -a' },
+			{ id: 'x', type: 'group', label: 'Git', children: [
+				{ id: 'y', type: 'command', label: 'status', command: 'git status' },
+				{ id: 'z', type: 'command', label: 'log', command: 'git log' }
+			] }
+		];
+
+		let nextId = 0;
+		const plan = planMerge(existing, incoming, () => `new-${nextId++}`);
+
+		assert.deepStrictEqual(plan.added.map(node => node.id), ['z']);
+		assert.deepStrictEqual(plan.updated.map(({ after }) => after.id), ['a']);
+		assert.deepStrictEqual(plan.skipped.map(node => node.id), ['y']);
+		assert.strictEqual((plan.nodes[0] as { command: string }).command, 'ls -a');
+		assert.strictEqual((existing[0] as { command: string }).command, 'ls', 'original tree is untouched');
+	});
+
+	test('updates groups whose tags changed', () => {
+		const existing: TreeNode[] = [{ id: 'g', type: 'group', label: 'Deploy', children: [] }];
+		const incoming: TreeNode[] = [{ id: 'g', type: 'group', label: 'Deploy', tags: ['production'], children: [] }];
+
+		const plan = planMerge(existing, incoming, () => 'new');
+
+		assert.deepStrictEqual(plan.updated.map(({ after }) => after.id), ['g']);
+		assert.deepStrictEqual(plan.nodes[0].tags, ['production']);
+	});
+
+	test('counts and diffs trees by id', () => {
+		const current: TreeNode[] = [
+			{ id: 'a', type: 'command', label: 'list', command: 'ls' },
+			{ id: 'g', type: 'group', label: 'Git', children: [{ id: 'b', type: 'command', label: 'status', command: 'git status' }] }
+		];
+		const backup: TreeNode[] = [
+			{ id: 'a', type: 'command', label: 'list all', command: 'ls -a' },
+			{ id: 'g', type: 'group', label: 'Git', children: [{ id: 'c', type: 'command', label: 'log', command: 'git log' }] },
+			{ id: 'd', type: 'command', label: 'disk', command: 'df -h' }
+		];
+
+		assert.deepStrictEqual(countNodes(backup), { commands: 3, groups: 1 });
+		assert.deepStrictEqual(diffTrees(current, backup), { added: 2, removed: 1, changed: 1 });
+		assert.deepStrictEqual(diffTrees(current, current), { added: 0, removed: 0, changed: 0 });
+	});
+
+	test('parses pasted nodes', () => {
+		const node = { id: '1', type: 'command', label: 'list', command: 'ls' };
+
+		assert.deepStrictEqual(parseNodes(JSON.stringify(node)), [node]);
+		assert.strictEqual(parseNodes(JSON.stringify([node, { ...node, id: '2' }])).length, 2);
+		assert.deepStrictEqual(parseNodes(JSON.stringify({ commands: [node] })), [node]);
+		assert.throws(() => parseNodes('{ "label": "list" }'), CommandDataError);
+	});
+
+	test('merges concurrent edits by node id', () => {
+		const base: TreeNode[] = [
+			{ id: 'a', type: 'command', label: 'list', command: 'ls' },
+			{ id: 'b', type: 'command', label: 'disk', command: 'df' },
+			{ id: 'g', type: 'group', label: 'Git', children: [{ id: 'c', type: 'command', label: 'status', command: 'git status' }] }
+		];
+		// This window renamed a command and added one, the other moved one into the group and deleted one
+		const ours: TreeNode[] = [
+			{ id: 'a', type: 'command', label: 'list all', command: 'ls -a' },
+			{ id: 'b', type: 'command', label: 'disk', command: 'df' },
+			{ id: 'g', type: 'group', label: 'Git', children: [{ id: 'c', type: 'command', label: 'status', command: 'git status' }] },
+			{ id: 'd', type: 'command', label: 'uptime', command: 'uptime' }
+		];
+		const theirs: TreeNode[] = [
+			{ id: 'g', type: 'group', label: 'Git', children: [
+				{ id: 'c', type: 'command', label: 'status', command: 'git status' },
+				{ id: 'a', type: 'command', label: 'list', command: 'ls' }
+			] }
+		];
+
+		const merged = mergeByNodeId(base, ours, theirs);
+
+		assert.deepStrictEqual(merged, [
+			{ id: 'g', type: 'group', label: 'Git', children: [
+				{ id: 'c', type: 'command', label: 'status', command: 'git status' },
+				{ id: 'a', type: 'command', label: 'list all', command: 'ls -a' }
+			] },
+			{ id: 'd', type: 'command', label: 'uptime', command: 'uptime' }
+		]);
+	});
+
+	test('keeps nodes deleted on one side but edited on the other', () => {
+		const base: TreeNode[] = [{ id: 'g', type: 'group', label: 'Git', children: [{ id: 'c', type: 'command', label: 'status', command: 'git status' }] }];
+		const ours: TreeNode[] = [];
+		const theirs: TreeNode[] = [{ id: 'g', type: 'group', label: 'Git', children: [{ id: 'c', type: 'command', label: 'status', command: 'git status -s' }] }];
+
+		assert.deepStrictEqual(mergeByNodeId(base, ours, theirs), [{ id: 'c', type: 'command', label: 'status', command: 'git status -s' }]);
+	});
+
+	test('keeps neighbours of added and deleted nodes where they were', () => {
+		const a: TreeNode = { id: 'a', type: 'command', label: 'list', command: 'ls' };
+		const b: TreeNode = { id: 'b', type: 'command', label: 'disk', command: 'df' };
+		const c: TreeNode = { id: 'c', type: 'command', label: 'status', command: 'git status' };
+		const x: TreeNode = { id: 'x', type: 'command', label: 'uptime', command: 'uptime' };
+
+		assert.deepStrictEqual(mergeByNodeId([a, b, c], [b, c], [x, a, b, c]), [x, b, c]);
+	});
+
+	test('keeps nodes deleted on different sides deleted', () => {
+		const a: TreeNode = { id: 'a', type: 'command', label: 'list', command: 'ls' };
+		const b: TreeNode = { id: 'b', type: 'command', label: 'disk', command: 'df' };
+		const c: TreeNode = { id: 'c', type: 'command', label: 'status', command: 'git status' };
+
+		assert.deepStrictEqual(mergeByNodeId([a, b, c], [a, c], [b, c]), [c]);
+	});
+
+	test('keeps our order and puts nodes moved on the other side after their new neighbour', () => {
+		const a: TreeNode = { id: 'a', type: 'command', label: 'list', command: 'ls' };
+		const b: TreeNode = { id: 'b', type: 'command', label: 'disk', command: 'df' };
+		const c: TreeNode = { id: 'c', type: 'command', label: 'status', command: 'git status' };
+		const d: TreeNode = { id: 'd', type: 'command', label: 'uptime', command: 'uptime' };
+
+		assert.deepStrictEqual(mergeByNodeId([a, b, c, d], [a, b, d], [b, c, a, d]), [b, a, d]);
+	});
+});
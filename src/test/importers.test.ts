@@ -0,0 +1,85 @@
+import * as assert from 'assert';
+import {
+	parseBashHistory,
+	parseZshHistory,
+	parseFishHistory,
+	rankByFrequency,
+	parsePackageScripts,
+	parseMakefileTargets,
+	parseTasks,
+	parseShellCodeBlocks
+} from '../importers';
+
+suite('Importers Test Suite', () => {
+	test('parses bash history with timestamps', () => {
+		assert.deepStrictEqual(parseBashHistory('#1700000000\nls -la\n\ngit status\n'), ['ls -la', 'git status']);
+	});
+
+	test('parses extended zsh history with continued lines', () => {
+		const content = ': 1700000000:0;git status\n: 1700000001:2;echo one \\\ntwo\nplain command\n';
+		assert.deepStrictEqual(parseZshHistory(content), ['git status', 'echo one \ntwo', 'plain command']);
+	});
+
+	test('parses fish history', () => {
+		const content = '- cmd: ls\n  when: 1700000000\n- cmd: echo a\\nb\n  when: 1700000001\n';
+		assert.deepStrictEqual(parseFishHistory(content), ['ls', 'echo a\nb']);
+	});
+
+	test('ranks by frequency, then recency', () => {
+		assert.deepStrictEqual(rankByFrequency(['a', 'b', 'a', 'c', 'b', 'a', 'd']), [
+			{ command: 'a', count: 3 },
+			{ command: 'b', count: 2 },
+			{ command: 'd', count: 1 },
+			{ command: 'c', count: 1 }
+		]);
+	});
+
+	test('reads package.json scripts', () => {
+		assert.deepStrictEqual(parsePackageScripts('{ "scripts": { "build": "tsc" } }', 'yarn'), [
+			{ label: 'build', command: 'yarn run build', description: 'tsc' }
+		]);
+	});
+
+	test('reads Makefile targets', () => {
+		const content = '.PHONY: build\nVERSION := 1\nbuild: deps\n\tgo build\nclean test:\n%.o: %.c\n';
+		assert.deepStrictEqual(parseMakefileTargets(content).map(target => target.command), ['make build', 'make clean', 'make test']);
+	});
+
+	test('skips POSIX Makefile assignments', () => {
+		const content = 'CC ::= gcc\nFLAGS :::= -O2\nall:: build\n';
+		assert.deepStrictEqual(parseMakefileTargets(content).map(target => target.command), ['make all']);
+	});
+
+	test('reads tasks.json with comments', () => {
+		const content = `{
+			// build tasks
+			"tasks": [
+				{ "label": "Build", "type": "shell", "command": "npm", "args": ["run", "build"], },
+				{ "label": "Launch", "type": "npm", "script": "start" }
+			]
+		}`;
+		assert.deepStrictEqual(parseTasks(content), [{ label: 'Build', command: 'npm run build' }]);
+	});
+
+	test('finds shell code blocks in Markdown', () => {
+		const content = [
+			'# Setup',
+			'```bash',
+			'npm install',
+			'npm run build',
+			'```',
+			'```js',
+			'console.log(1);',
+			'```',
+			'~~~~sh',
+			'echo "```"',
+			'~~~~',
+			'```sh',
+			'```'
+		].join('\n');
+		assert.deepStrictEqual(parseShellCodeBlocks(content), [
+			{ line: 1, command: 'npm install\nnpm run build' },
+			{ line: 8, command: 'echo "```"' }
+		]);
+	});
+});
@@ -0,0 +1,24 @@
+import * as assert from 'assert';
+import { parsePlaceholders, applyPlaceholders } from '../placeholderResolver';
+
+suite('Placeholder Resolver Test Suite', () => {
+	test('parses input, pick and default placeholders', () => {
+		const placeholders = parsePlaceholders('kubectl logs ${input:pod} -n ${pick:env|dev, staging,prod} --port ${default:port=8080}');
+
+		assert.deepStrictEqual(placeholders, [
+			{ kind: 'input', name: 'pod', options: [] },
+			{ kind: 'pick', name: 'env', options: ['dev', 'staging', 'prod'] },
+			{ kind: 'default', name: 'port', options: [], defaultValue: '8080' }
+		]);
+	});
+
+	test('returns one placeholder per name', () => {
+		const placeholders = parsePlaceholders('git checkout ${input:branch} && git pull origin ${input:branch}');
+		assert.strictEqual(placeholders.length, 1);
+	});
+
+	test('applies values and leaves unknown placeholders untouched', () => {
+		const result = applyPlaceholders('echo ${input:a} ${default:b=1} ${input:c}', { a: 'x', b: '2' });
+		assert.strictEqual(result, 'echo x 2 ${input:c}');
+	});
+});
@@ -0,0 +1,28 @@
+import * as assert from 'assert';
+import { findDangerPattern, findTypeToConfirmTags, needsConfirmation } from '../safety';
+
+const patterns = ['\\brm\\s+-\\w*[rf]', '\\bkubectl\\s+delete\\b', '(unclosed'];
+
+suite('Safety Test Suite', () => {
+	test('finds the matching danger pattern', () => {
+		assert.strictEqual(findDangerPattern('sudo rm -rf build', patterns), patterns[0]);
+		assert.strictEqual(findDangerPattern('KUBECTL DELETE pod web', patterns), patterns[1]);
+		assert.strictEqual(findDangerPattern('kubectl get pods', patterns), undefined);
+	});
+
+	test('ignores invalid patterns', () => {
+		assert.strictEqual(findDangerPattern('(unclosed', patterns), undefined);
+	});
+
+	test('matches tags case-insensitively', () => {
+		assert.deepStrictEqual(findTypeToConfirmTags(['Production', 'docker'], ['production']), ['Production']);
+		assert.deepStrictEqual(findTypeToConfirmTags(['docker'], ['production']), []);
+	});
+
+	test('needs confirmation when marked, dangerous or tagged', () => {
+		assert.strictEqual(needsConfirmation('ls', undefined, [], patterns, ['production']), false);
+		assert.strictEqual(needsConfirmation('ls', true, [], patterns, ['production']), true);
+		assert.strictEqual(needsConfirmation('rm -rf dist', undefined, [], patterns, ['production']), true);
+		assert.strictEqual(needsConfirmation('ls', undefined, ['Production'], patterns, ['production']), true);
+	});
+});
@@ -0,0 +1,14 @@
+import * as assert from 'assert';
+import { applySecrets, parseSecretNames } from '../secretResolver';
+
+suite('Secret Resolver Test Suite', () => {
+	test('finds each secret once', () => {
+		const names = parseSecretNames('curl -u ${secret:user}:${secret:password} ${input:url} && echo ${secret:user}');
+		assert.deepStrictEqual(names, ['user', 'password']);
+	});
+
+	test('fills in known secrets and leaves the rest', () => {
+		const result = applySecrets('login ${secret:token} ${secret:other} ${input:host}', { token: 's3cr$t' });
+		assert.strictEqual(result, 'login s3cr$t ${secret:other} ${input:host}');
+	});
+});
@@ -0,0 +1,27 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { StorageService } from '../storageService';
+import { createTree, ids } from './fixtures';
+
+suite('StorageService Test Suite', () => {
+	const storageService = new StorageService({} as vscode.ExtensionContext);
+
+	test('moves nodes before, after and inside', () => {
+		assert.deepStrictEqual(ids(storageService.moveNode(createTree(), 'a', 'b', 'before')), ['g', 'g/a', 'g/b', 'g/c', 'g/h', 'd']);
+		assert.deepStrictEqual(ids(storageService.moveNode(createTree(), 'b', 'g', 'after')), ['a', 'g', 'g/c', 'g/h', 'b', 'd']);
+		assert.deepStrictEqual(ids(storageService.moveNode(createTree(), 'a', 'h', 'inside')), ['g', 'g/b', 'g/c', 'g/h', 'g/h/a', 'd']);
+	});
+
+	test('refuses to move a group into itself or its descendants', () => {
+		const tree = createTree();
+		assert.strictEqual(storageService.moveNode(tree, 'g', 'h', 'inside'), tree);
+		assert.strictEqual(storageService.moveNode(tree, 'g', 'b', 'before'), tree);
+		assert.strictEqual(storageService.moveNode(tree, 'g', 'g', 'after'), tree);
+	});
+
+	test('leaves the tree alone when the target is missing', () => {
+		const tree = createTree();
+		assert.strictEqual(storageService.moveNode(tree, 'a', 'missing', 'after'), tree);
+		assert.deepStrictEqual(ids(tree), ['a', 'g', 'g/b', 'g/c', 'g/h', 'd']);
+	});
+});
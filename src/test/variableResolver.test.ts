@@ -0,0 +1,20 @@
+import * as assert from 'assert';
+import { substituteVariables } from '../variableResolver';
+
+suite('Variable Resolver Test Suite', () => {
+	test('replaces known variables and passes arguments', () => {
+		const result = substituteVariables('cd ${fileDirname} && echo ${env:USER}', (name, argument) => {
+			if (name === 'fileDirname') {
+				return '/src';
+			}
+			return name === 'env' ? `<${argument}>` : undefined;
+		});
+
+		assert.strictEqual(result, 'cd /src && echo <USER>');
+	});
+
+	test('leaves unknown variables for the shell', () => {
+		const result = substituteVariables('echo ${HOME} ${file}', name => name === 'file' ? 'a.txt' : undefined);
+		assert.strictEqual(result, 'echo ${HOME} a.txt');
+	});
+});
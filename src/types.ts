@@ -1,28 +1,94 @@
+/**
+ * How a command picks its terminal
+ * - shared: reuse the terminal with the same name
+ * - new: open a new terminal every time
+ * - split: split the active terminal
+ * - background: no terminal, run as a process with its output in an output channel
+ */
+export type TerminalMode = 'shared' | 'new' | 'split' | 'background';
+
+/**
+ * Terminal settings for a command, or defaults for all commands in a group
+ */
+export interface ExecutionSettings {
+    terminalName?: string;
+    cwd?: string;
+    env?: Record<string, string>;
+    shellPath?: string;
+    terminalMode?: TerminalMode;
+}
+
+/**
+ * Tags and look of a node, all optional
+ */
+export interface NodeMetadata {
+    /** Free-form tags, also inherited by everything inside a group */
+    tags?: string[];
+    /** Codicon id, e.g. "rocket" */
+    icon?: string;
+    /** Theme color id for the icon, e.g. "charts.red" */
+    color?: string;
+}
+
 /**
  * Represents a single command that can be executed
  */
-export interface CommandItem {
+export interface CommandItem extends NodeMetadata {
     id: string;
     type: 'command';
     label: string;
     command: string;
     description?: string;
+    /** Free-form Markdown shown in the tooltip */
+    notes?: string;
+    /** Always ask before running the command */
+    confirm?: boolean;
+    /** Shown in the status bar and under Favorites */
+    pinned?: boolean;
+    /** Short text for the status bar, instead of the label */
+    statusBarText?: string;
+    execution?: ExecutionSettings;
 }
 
 /**
  * Represents a group/folder that contains commands or other groups
  */
-export interface CommandGroup {
+export interface CommandGroup extends NodeMetadata {
     id: string;
     type: 'group';
     label: string;
     children: TreeNode[];
+    execution?: ExecutionSettings;
+}
+
+/**
+ * How the steps of a workflow are run
+ */
+export type WorkflowMode = 'sequential' | 'parallel';
+
+/**
+ * Represents a list of commands that are run together
+ */
+export interface CommandWorkflow extends NodeMetadata {
+    id: string;
+    type: 'workflow';
+    label: string;
+    /** Steps of the workflow, which are always commands */
+    children: TreeNode[];
+    mode: WorkflowMode;
+    stopOnFailure: boolean;
+    execution?: ExecutionSettings;
 }
 
 /**
  * Union type for tree nodes
  */
-export type TreeNode = CommandItem | CommandGroup;
+export type TreeNode = CommandItem | CommandGroup | CommandWorkflow;
+
+/**
+ * Nodes that have children
+ */
+export type ContainerNode = CommandGroup | CommandWorkflow;
 
 /**
  * Type guard to check if a node is a command item
@@ -38,9 +104,58 @@ export function isCommandGroup(node: TreeNode): node is CommandGroup {
     return node.type === 'group';
 }
 
+/**
+ * Type guard to check if a node is a workflow
+ */
+export function isCommandWorkflow(node: TreeNode): node is CommandWorkflow {
+    return node.type === 'workflow';
+}
+
+/**
+ * Type guard to check if a node has children
+ */
+export function isContainer(node: TreeNode): node is ContainerNode {
+    return isCommandGroup(node) || isCommandWorkflow(node);
+}
+
+/**
+ * State of a command while it is run from the tree
+ */
+export type RunStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'sent' | 'skipped';
+
 /**
  * Root data structure for storage
  */
 export interface CommandData {
     commands: TreeNode[];
 }
+
+/**
+ * A deleted node, kept in "Recently Deleted" so it can be restored
+ */
+export interface DeletedNode {
+    node: TreeNode;
+    /** Group or workflow it was deleted from, undefined at the root */
+    parentId?: string;
+    /** Source it was deleted from */
+    sourceId?: string;
+    /** Position among its siblings */
+    index: number;
+    deletedAt: number;
+}
+
+/**
+ * A command that was run from Command Notes
+ */
+export interface HistoryEntry {
+    id: string;
+    commandId?: string;
+    label: string;
+    command: string;
+    timestamp: number;
+    terminalName: string;
+    cwd?: string;
+    exitCode?: number;
+    /** Ran in the background instead of a terminal */
+    background?: boolean;
+}
@@ -0,0 +1,112 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+/**
+ * Looks up the value of a variable, or undefined if the variable is unknown
+ */
+export type VariableLookup = (name: string, argument: string | undefined) => string | undefined;
+
+const VARIABLE_PATTERN = /\$\{([A-Za-z]+)(?::([^}]+))?\}/g;
+
+/**
+ * Replace known variables in a command. Unknown ones, such as shell
+ * variables like ${HOME}, are left untouched.
+ */
+export function substituteVariables(command: string, lookup: VariableLookup): string {
+    return command.replace(VARIABLE_PATTERN, (token, name: string, argument: string | undefined) => {
+        const value = lookup(name, argument);
+        return value === undefined ? token : value;
+    });
+}
+
+/**
+ * Minimal part of the built-in git extension API used to find the current branch
+ */
+interface GitApi {
+    repositories: {
+        rootUri: vscode.Uri;
+        state: { HEAD?: { name?: string } };
+    }[];
+}
+
+export class VariableResolver {
+    /**
+     * Resolve VS Code context variables like ${file} or ${workspaceFolder}.
+     * Throws if a variable is used that has no value right now.
+     */
+    async resolve(command: string): Promise<string> {
+        const editor = vscode.window.activeTextEditor;
+        const document = editor?.document;
+        const fileUri = document && document.uri.scheme === 'file' ? document.uri : undefined;
+        const folder = (fileUri && vscode.workspace.getWorkspaceFolder(fileUri)) || vscode.workspace.workspaceFolders?.[0];
+
+        const requireFile = (name: string): string => {
+            if (!fileUri) {
+                throw new Error(`Cannot resolve \${${name}}: no file is open in the editor`);
+            }
+            return fileUri.fsPath;
+        };
+        const requireFolder = (name: string): vscode.WorkspaceFolder => {
+            if (!folder) {
+                throw new Error(`Cannot resolve \${${name}}: no workspace folder is open`);
+            }
+            return folder;
+        };
+        const requireEditor = (name: string): vscode.TextEditor => {
+            if (!editor) {
+                throw new Error(`Cannot resolve \${${name}}: no active editor`);
+            }
+            return editor;
+        };
+
+        const gitBranch = command.includes('${gitBranch}') ? await this.getGitBranch(fileUri || folder?.uri) : undefined;
+
+        return substituteVariables(command, (name, argument) => {
+            switch (name) {
+                case 'file':
+                    return requireFile(name);
+                case 'fileBasename':
+                    return path.basename(requireFile(name));
+                case 'fileBasenameNoExtension':
+                    return path.parse(requireFile(name)).name;
+                case 'fileExtname':
+                    return path.extname(requireFile(name));
+                case 'fileDirname':
+                    return path.dirname(requireFile(name));
+                case 'relativeFile':
+                    return vscode.workspace.asRelativePath(requireFile(name), false);
+                case 'workspaceFolder':
+                    return requireFolder(name).uri.fsPath;
+                case 'workspaceFolderBasename':
+                    return requireFolder(name).name;
+                case 'selectedText': {
+                    const activeEditor = requireEditor(name);
+                    return activeEditor.document.getText(activeEditor.selection);
+                }
+                case 'lineNumber':
+                    return String(requireEditor(name).selection.active.line + 1);
+                case 'gitBranch':
+                    if (!gitBranch) {
+                        throw new Error('Cannot resolve ${gitBranch}: no git branch found');
+                    }
+                    return gitBranch;
+                case 'env':
+                    return argument === undefined ? undefined : process.env[argument] ?? '';
+                default:
+                    return undefined;
+            }
+        });
+    }
+
+    private async getGitBranch(uri: vscode.Uri | undefined): Promise<string | undefined> {
+        const extension = vscode.extensions.getExtension<{ getAPI(version: 1): GitApi }>('vscode.git');
+        if (!extension) {
+            return undefined;
+        }
+
+        const git = (extension.isActive ? extension.exports : await extension.activate()).getAPI(1);
+        const repository = git.repositories.find(repo => uri && uri.fsPath.startsWith(repo.rootUri.fsPath))
+            || git.repositories[0];
+        return repository?.state.HEAD?.name;
+    }
+}